@@ -0,0 +1,162 @@
+// Actionability checks: before acting on an element, wait until a real
+// finger could act on it. Elements that are disabled, collapsed, outside the
+// window, covered (by a sheet, alert or keyboard) or still animating in make
+// WDA act on the wrong spot or silently do nothing.
+
+import type { ElementRect } from "./snapshot.js";
+import type { ScreenSize } from "./wda-client.js";
+
+// Checks in the order they're run; the first failing one is reported
+export type ActionabilityCheck =
+  | "enabled"
+  | "frame"
+  | "in-window"
+  | "hittable"
+  | "stable";
+
+// Error class for elements that didn't become actionable in time
+export class ActionabilityError extends Error {
+  constructor(
+    message: string,
+    public ref: string,
+    public check: ActionabilityCheck
+  ) {
+    super(message);
+    this.name = "ActionabilityError";
+  }
+}
+
+// WDA lookups needed for the checks (implemented by WDAClient)
+export interface ActionabilityClient {
+  getElementAttribute(elementId: string, name: string): Promise<unknown>;
+  getElementRect(elementId: string): Promise<ElementRect | null>;
+  getScreenSize(): Promise<ScreenSize>;
+}
+
+// How long to wait for actionability unless told otherwise, in milliseconds
+export const DEFAULT_ACTION_TIMEOUT = 5000;
+
+export interface ActionabilityOptions {
+  timeout?: number; // milliseconds, default DEFAULT_ACTION_TIMEOUT
+  interval?: number; // Delay between polls in milliseconds, default 100
+}
+
+// WDA reports booleans as booleans or strings depending on the attribute
+const isFalse = (value: unknown): boolean => value === false || value === "false";
+
+const sameRect = (a: ElementRect, b: ElementRect): boolean =>
+  a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+const formatRect = (rect: ElementRect): string =>
+  `${rect.x},${rect.y} ${rect.width}x${rect.height}`;
+
+// Run the checks once; returns the first failure, or null when all pass
+const checkOnce = async (
+  client: ActionabilityClient,
+  elementId: string,
+  screen: ScreenSize,
+  rect: ElementRect | null
+): Promise<{ check: ActionabilityCheck; reason: string } | null> => {
+  if (isFalse(await client.getElementAttribute(elementId, "enabled"))) {
+    return { check: "enabled", reason: "it is disabled" };
+  }
+
+  if (!rect || rect.width <= 0 || rect.height <= 0) {
+    return {
+      check: "frame",
+      reason: rect
+        ? `its frame is empty (${formatRect(rect)})`
+        : "its frame could not be read",
+    };
+  }
+
+  // The action lands on the center, so that has to be in the window
+  const centerX = rect.x + rect.width / 2;
+  const centerY = rect.y + rect.height / 2;
+  if (
+    centerX < 0 ||
+    centerY < 0 ||
+    centerX >= screen.width ||
+    centerY >= screen.height
+  ) {
+    return {
+      check: "in-window",
+      reason: `its frame (${formatRect(rect)}) lies outside the ${screen.width}x${screen.height} window; scroll it into view with 'scroll-to'`,
+    };
+  }
+
+  // Not every element type supports the attribute; then being in the window
+  // has to do
+  let hittable: unknown = true;
+  try {
+    hittable = await client.getElementAttribute(elementId, "hittable");
+  } catch {
+    // Treated as hittable
+  }
+  if (isFalse(hittable)) {
+    return {
+      check: "hittable",
+      reason: "it is covered by another view (e.g. a sheet, alert or the keyboard)",
+    };
+  }
+
+  return null;
+};
+
+// Poll until the element passes every check and its frame is the same in two
+// consecutive polls. Throws an ActionabilityError naming the check that was
+// still failing at the timeout. Returns the element's final rect.
+export async function waitForActionable(
+  client: ActionabilityClient,
+  elementId: string,
+  ref: string,
+  options: ActionabilityOptions = {}
+): Promise<ElementRect> {
+  const timeout = options.timeout ?? DEFAULT_ACTION_TIMEOUT;
+  const interval = options.interval ?? 100;
+  const deadline = Date.now() + timeout;
+  const screen = await client.getScreenSize();
+
+  let previous: ElementRect | null = null;
+  for (;;) {
+    const rect = await client.getElementRect(elementId);
+    const failure = (await checkOnce(client, elementId, screen, rect)) ?? {
+      check: "stable" as const,
+      reason:
+        previous && rect
+          ? `it is still moving (frame went from ${formatRect(previous)} to ${formatRect(rect)})`
+          : "its position was only checked once",
+    };
+    if (failure.check === "stable" && rect && previous && sameRect(previous, rect)) {
+      return rect;
+    }
+    previous = rect;
+
+    if (Date.now() + interval > deadline) {
+      throw new ActionabilityError(
+        `${ref} is not actionable after ${timeout}ms: failed the "${failure.check}" check, ${failure.reason}. Use --force to act anyway.`,
+        ref,
+        failure.check
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
+
+// Options shared by element actions
+export interface ActionOptions {
+  force?: boolean; // Skip the actionability checks
+  timeout?: number; // How long to wait for them, in milliseconds
+}
+
+// Wait until an element is enabled, in the window, hittable and no longer
+// moving, unless the action is forced
+export async function ensureActionable(
+  client: ActionabilityClient,
+  elementId: string,
+  ref: string,
+  options: ActionOptions
+): Promise<void> {
+  if (options.force) return;
+  await waitForActionable(client, elementId, ref, { timeout: options.timeout });
+}
@@ -0,0 +1,164 @@
+// Set-of-marks annotation: draws snapshot element frames and their refs onto
+// a screenshot, so a vision model can match what it sees to a ref.
+
+import { decodePNG, type PNGImage } from "./png.js";
+import type { Element, Snapshot } from "./snapshot.js";
+
+// 5x7 bitmap glyphs for the characters that appear in refs. Each row is 5
+// bits, most significant bit on the left.
+const GLYPHS: Record<string, number[]> = {
+  "@": [0x0e, 0x11, 0x17, 0x15, 0x17, 0x10, 0x0e],
+  e: [0x00, 0x00, 0x0e, 0x11, 0x1f, 0x10, 0x0e],
+  "0": [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  "1": [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  "2": [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  "3": [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  "4": [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  "5": [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  "6": [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  "7": [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  "8": [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  "9": [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+};
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+
+// High-contrast colors, cycled per mark so neighbouring boxes differ
+const COLORS: Array<[number, number, number]> = [
+  [230, 25, 75],
+  [60, 180, 75],
+  [0, 130, 200],
+  [245, 130, 48],
+  [145, 30, 180],
+  [240, 50, 230],
+  [0, 128, 128],
+  [170, 110, 40],
+];
+
+type RGB = [number, number, number];
+
+// Fill a rectangle in image pixels, clipped to the image
+const fillRect = (
+  image: PNGImage,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  color: RGB
+) => {
+  const left = Math.max(0, Math.round(x));
+  const top = Math.max(0, Math.round(y));
+  const right = Math.min(image.width, Math.round(x + w));
+  const bottom = Math.min(image.height, Math.round(y + h));
+  for (let row = top; row < bottom; row++) {
+    for (let col = left; col < right; col++) {
+      const i = (row * image.width + col) * 4;
+      image.data[i] = color[0];
+      image.data[i + 1] = color[1];
+      image.data[i + 2] = color[2];
+      image.data[i + 3] = 255;
+    }
+  }
+};
+
+const strokeRect = (
+  image: PNGImage,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  thickness: number,
+  color: RGB
+) => {
+  fillRect(image, x, y, w, thickness, color);
+  fillRect(image, x, y + h - thickness, w, thickness, color);
+  fillRect(image, x, y, thickness, h, color);
+  fillRect(image, x + w - thickness, y, thickness, h, color);
+};
+
+// Draw text in white on a colored tag; `size` is the pixel size of one
+// glyph dot
+const drawLabel = (
+  image: PNGImage,
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+  color: RGB
+) => {
+  const padding = size;
+  const advance = (GLYPH_WIDTH + 1) * size;
+  fillRect(
+    image,
+    x,
+    y,
+    text.length * advance - size + padding * 2,
+    GLYPH_HEIGHT * size + padding * 2,
+    color
+  );
+
+  for (let c = 0; c < text.length; c++) {
+    const glyph = GLYPHS[text[c]];
+    if (!glyph) continue;
+    const left = x + padding + c * advance;
+    for (let row = 0; row < GLYPH_HEIGHT; row++) {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        if (glyph[row] & (1 << (GLYPH_WIDTH - 1 - col))) {
+          fillRect(
+            image,
+            left + col * size,
+            y + padding + row * size,
+            size,
+            size,
+            [255, 255, 255]
+          );
+        }
+      }
+    }
+  }
+};
+
+// Elements worth marking: visible, with a real frame, and smaller than the
+// screen (the application and window frames would just outline the image)
+const markable = (element: Element, screen: Element["frame"]): boolean =>
+  element.visibility !== "offscreen" &&
+  element.frame.w > 0 &&
+  element.frame.h > 0 &&
+  !(element.frame.w >= screen.w && element.frame.h >= screen.h);
+
+// Draw a box and ref tag for every markable element of the snapshot.
+// Snapshot frames are in points; the scale to screenshot pixels comes from
+// the root element's width. Returns the annotated image and the marked refs.
+export function annotateScreenshot(
+  png: Buffer,
+  snapshot: Snapshot
+): { image: PNGImage; refs: string[] } {
+  const image = decodePNG(png);
+
+  const root = snapshot.elements.find((element) => element.ref === snapshot.tree);
+  const screen = root?.frame ?? { x: 0, y: 0, w: image.width, h: image.height };
+  const scale = screen.w > 0 ? image.width / screen.w : 1;
+  const thickness = Math.max(1, Math.round(scale));
+  const dot = Math.max(1, Math.round(scale * 1.5));
+  const tagHeight = (GLYPH_HEIGHT + 2) * dot;
+
+  // Parents before children, so small elements are drawn on top
+  const marked = snapshot.elements
+    .filter((element) => markable(element, screen))
+    .reverse();
+
+  marked.forEach((element, index) => {
+    const color = COLORS[index % COLORS.length];
+    const x = (element.frame.x - screen.x) * scale;
+    const y = (element.frame.y - screen.y) * scale;
+    const w = element.frame.w * scale;
+    const h = element.frame.h * scale;
+    strokeRect(image, x, y, w, h, thickness, color);
+
+    // Tag sits above the box, or inside it at the top of the screen
+    const tagY = y - tagHeight >= 0 ? y - tagHeight : y;
+    drawLabel(image, element.ref, x, tagY, dot, color);
+  });
+
+  return { image, refs: marked.map((element) => element.ref) };
+}
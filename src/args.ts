@@ -0,0 +1,43 @@
+// Command-line argument parsing for the CLI.
+
+// Flags that never take a value, so they don't swallow the positional
+// argument after them (e.g. `tap --force @e5`)
+export const BOOLEAN_FLAGS = new Set([
+  "help",
+  "interactive",
+  "diff",
+  "annotate",
+  "update-baseline",
+  "force",
+  "no-auto-alerts",
+]);
+
+// Split arguments into the command, positionals and --options. Boolean
+// flags are set to "true"; other options take the next argument unless it
+// is another option.
+export const parseArgs = (
+  args: string[],
+): {
+  command: string;
+  positional: string[];
+  options: Record<string, string>;
+} => {
+  const command = args[0] || "help";
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("--")) {
+      const key = arg.slice(2);
+      const next = args[i + 1];
+      const takesValue =
+        !BOOLEAN_FLAGS.has(key) && next !== undefined && !next.startsWith("--");
+      options[key] = takesValue ? args[++i] : "true";
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { command, positional, options };
+};
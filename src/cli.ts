@@ -3,13 +3,20 @@ import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import { fileURLToPath } from "url";
+import { z } from "zod";
 import {
+  type AlertRule,
   type Command,
+  type Response,
+  AlertRuleSchema,
+  PointerSequenceSchema,
   getSocketPath,
   getPidPath,
   generateId,
 } from "./protocol.js";
-import { SocketClient } from "./socket-client.js";
+import { DEFAULT_COMMAND_TIMEOUT, SocketClient } from "./socket-client.js";
+import { parseArgs } from "./args.js";
+import { DEFAULT_ACTION_TIMEOUT } from "./actionability.js";
 import { listSimulators } from "./simctl.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -20,7 +27,7 @@ const output = (data: unknown) => {
 };
 
 // Print error and exit
-const fail = (error: string) => {
+const fail = (error: string): never => {
   output({ success: false, error });
   process.exit(1);
 };
@@ -80,7 +87,7 @@ const ensureDaemon = async (): Promise<void> => {
 const sendCommand = async (
   command: Command,
   timeout?: number,
-): Promise<void> => {
+): Promise<Response> => {
   const client = new SocketClient(getSocketPath());
   const response = await client.sendCommand(command, timeout);
   output(response);
@@ -88,35 +95,41 @@ const sendCommand = async (
   if (!response.success) {
     process.exit(1);
   }
+  return response;
 };
 
-// Parse CLI arguments
-const parseArgs = (
-  args: string[],
-): {
-  command: string;
-  positional: string[];
-  options: Record<string, string>;
-} => {
-  const command = args[0] || "help";
-  const options: Record<string, string> = {};
-  const positional: string[] = [];
-
-  for (let i = 1; i < args.length; i++) {
-    const arg = args[i];
-    if (arg.startsWith("--")) {
-      const key = arg.slice(2);
-      const value =
-        args[i + 1] && !args[i + 1].startsWith("--") ? args[++i] : "true";
-      options[key] = value;
-    } else {
-      positional.push(arg);
-    }
+// --no-auto-alerts of commands that run the session's alert rules first
+const parseAlertOptions = (options: Record<string, string>) => ({
+  autoAlerts: options["no-auto-alerts"] === "true" ? false : undefined,
+});
+
+// --force, --timeout and --no-auto-alerts of commands that act on an element
+const parseActionOptions = (options: Record<string, string>) => {
+  const timeout = options.timeout ? parseInt(options.timeout, 10) : undefined;
+  if (timeout !== undefined && (isNaN(timeout) || timeout <= 0)) {
+    fail("Invalid timeout. Use a positive number of milliseconds.");
   }
+  return {
+    force: options.force === "true" || undefined,
+    timeout,
+    ...parseAlertOptions(options),
+  };
+};
 
-  return { command, positional, options };
+// Send an element action, giving the daemon time for `waits` actionability
+// waits on top of the usual command timeout
+const sendAction = async (
+  command: Command,
+  waits: number = 1,
+): Promise<Response> => {
+  const timeout =
+    ("timeout" in command && command.timeout) || DEFAULT_ACTION_TIMEOUT;
+  return sendCommand(command, DEFAULT_COMMAND_TIMEOUT + timeout * waits);
 };
 
+// Time allowed per scroll-to swipe, in milliseconds
+const SWIPE_TIMEOUT = 3000;
+
 // Print help
 const printHelp = () => {
   console.log(`
@@ -129,6 +142,7 @@ Setup:
 
 Session Commands:
   start-session [--sim <name>]  Start daemon, boot simulator, and start WDA
+       [--alert-rules <file>]   JSON rules answering alerts before actions
   stop-session                  Stop WDA and daemon
   status                        Check daemon, simulator, and WDA status
   list-sims                     List available simulators
@@ -139,14 +153,51 @@ App Commands:
   terminate <bundle-id>         Terminate app by bundle ID
 
 Automation Commands:
-  snapshot                      Get accessibility tree as JSON
-  screenshot [--out <file>]     Take screenshot (PNG)
-  tap <ref>                     Tap element by ref (e.g., @e5)
+  snapshot [ref] [--depth <n>]  Get accessibility tree (optionally a subtree)
+           [--format tree]      Text outline instead of JSON
+           [--interactive]      Only actionable elements and their context
+           [--diff]             Only changes since the previous snapshot
+           [--max-tokens <n>]   Condense output to fit a token budget
+  find [text] [--type <type>]   Find elements (and their refs) without a snapshot
+       [--label <l>] [--identifier <id>] [--value <v>] [--matches <regex>]
+       [--contains <text>]      Same as [text]: substring of label/identifier/value
+  screenshot [ref] [--out <file>]  Take screenshot (PNG), optionally of one element
+             [--format jpeg] [--quality <1-100>] [--scale <0-1>]
+             [--annotate]       Draw element frames and refs onto the image
+             [--interactive]    With --annotate, only actionable elements
+             [--compare <png>]  Compare against a baseline, write a diff image
+             [--threshold <t>] [--max-mismatch <%>] [--ignore <regions>]
+             [--diff-out <file>] [--update-baseline]
+  tap <ref>                     Tap element by ref (e.g., @e5) or selector
   type <ref> <text>             Type text into element
   clear <ref>                   Clear text field
+  set-value <ref> <value>       Set a switch (on/off), slider (70%), picker or field
+  fill --data <json>            Clear and type into fields named by label/placeholder/id
   swipe <ref> <direction>       Swipe on element (up/down/left/right)
+  swipe-screen <direction>      Swipe across the screen (up/down/left/right)
+       [--distance <0-1>] [--from x,y] [--velocity <pt/s>]
+  tap-at <x> <y>                Tap at screen coordinates (points)
+  scroll-to <ref>               Scroll until an element is onscreen and hittable
+       [--container <ref>] [--max-swipes <n>]
+  long-press <ref> [--duration <ms>]  Touch and hold (default: 1000ms)
+  double-tap <ref>              Tap twice in quick succession
+  drag <from> <to|x,y>          Hold, then drag to another element or point
+       [--duration <ms>]
+  pinch <ref> --scale <f>       Zoom in (f > 1) or out (f < 1) on an element
+  gesture '<json>' | --file <path>  Raw W3C Actions pointer sequences (points)
   wait <ref> [--timeout <ms>]   Wait for element to appear (default: 10s)
 
+Device Commands:
+  press <button>                Press home, volume-up, volume-down or lock
+  key <key>                     Press return, delete, tab or escape
+  keyboard hide|status          Dismiss the keyboard or report whether it's up
+
+Selectors (accepted anywhere a ref is):
+  Button[label="Log in"]        Type with attribute conditions (=, *=, ^=, $=, ~=)
+  #loginButton                  Accessibility identifier
+  Cell:nth(3) > StaticText      0-based index, direct child (space = any descendant)
+  text="Continue"               Label or value
+
 Alert Commands:
   alert-accept                  Accept/confirm the current alert
   alert-dismiss                 Dismiss/cancel the current alert
@@ -155,7 +206,22 @@ Alert Commands:
 Options:
   --sim <name>      Simulator name (e.g., "iPhone 15")
   --out <file>      Output file path for screenshot
-  --timeout <ms>    Timeout in milliseconds (for wait command)
+  --format <fmt>    Snapshot format: json (default) or tree;
+                    screenshot format: png (default) or jpeg
+  --quality <n>     JPEG quality, 1-100 (default 80)
+  --scale <f>       Shrink screenshot by a factor, e.g. 0.5; pinch zoom factor
+  --interactive     Snapshot (or annotate) only buttons, cells, fields, text, etc.
+  --diff            Snapshot only added/removed/changed elements
+  --depth <n>       Snapshot depth limit below the root (or given ref)
+  --max-tokens <n>  Condense snapshot to about n tokens
+  --timeout <ms>    Timeout in milliseconds (wait; actionability wait of
+                    element actions, default 5000)
+  --force           Act on an element without the actionability checks
+  --no-auto-alerts  Don't apply the session's alert rules before this action
+  --duration <ms>   Gesture duration (long-press, drag, pinch)
+  --threshold <t>   Per-pixel color tolerance for --compare, 0-1 (default 0.1)
+  --max-mismatch <%>  Percentage of differing pixels --compare accepts (default 0)
+  --ignore <regions>  Space-separated refs, x,y,w,h (points) or status-bar
   --help            Show this help message
 
 Environment Variables:
@@ -165,15 +231,40 @@ Environment Variables:
 Examples:
   agent-ios list-sims
   agent-ios start-session --sim "iPhone 15"
+  agent-ios start-session --alert-rules ./alert-rules.json
   agent-ios install ./MyApp.app
   agent-ios launch com.apple.mobilesafari
   agent-ios snapshot
+  agent-ios snapshot --format tree
+  agent-ios snapshot --interactive --format tree
+  agent-ios snapshot --diff
+  agent-ios snapshot @e12 --depth 2
+  agent-ios snapshot --format tree --max-tokens 2000
+  agent-ios find Continue --type Button
   agent-ios tap @e5
+  agent-ios tap 'Button[label="Log in"]'
+  agent-ios tap @e5 --timeout 10000
+  agent-ios tap @e5 --force
   agent-ios type @e10 "Hello World"
+  agent-ios set-value @e8 on
+  agent-ios set-value @e14 "March|3|2025"
+  agent-ios fill --data '{"Email":"a@b.c","Password":"secret"}'
   agent-ios wait @e5 --timeout 5000
   agent-ios swipe @e1 down
+  agent-ios swipe-screen up --distance 0.7
+  agent-ios tap-at 200 400
+  agent-ios scroll-to 'Cell[label="Privacy"]'
+  agent-ios long-press @e7 --duration 1500
+  agent-ios drag @e12 @e15
+  agent-ios pinch @e3 --scale 2
+  agent-ios keyboard hide
+  agent-ios key return
   agent-ios alert-accept
   agent-ios screenshot --out screen.png
+  agent-ios screenshot @e5 --out button.png
+  agent-ios screenshot --format jpeg --quality 70 --scale 0.5
+  agent-ios screenshot --annotate --interactive --out marks.png
+  agent-ios screenshot --compare login.png --ignore "status-bar @e4"
   agent-ios terminate com.apple.mobilesafari
   agent-ios stop-session
 `);
@@ -247,6 +338,26 @@ const main = async () => {
       case "start-session": {
         // Start daemon if not running, then send command
         // Use longer timeout (3 min) since WDA build can take a while
+        let alertRules: AlertRule[] | undefined;
+        if (options["alert-rules"]) {
+          let rulesInput: unknown;
+          try {
+            rulesInput = JSON.parse(fs.readFileSync(options["alert-rules"], "utf-8"));
+          } catch (err) {
+            fail(`Could not read alert rules: ${err instanceof Error ? err.message : err}`);
+            return;
+          }
+          const rules = z.array(AlertRuleSchema).safeParse(rulesInput);
+          if (!rules.success) {
+            const issues = rules.error.issues.map(
+              (issue) => `${issue.path.join(".") || "rules"}: ${issue.message}`
+            );
+            fail(`Invalid alert rules. ${issues.join("; ")}`);
+            return;
+          }
+          alertRules = rules.data;
+        }
+
         if (!isDaemonRunning()) {
           await startDaemon();
         }
@@ -257,6 +368,7 @@ const main = async () => {
             id: generateId(),
             action: "start-session",
             sim: options.sim,
+            alertRules,
           },
           180000, // 3 minutes for WDA startup
         );
@@ -298,23 +410,137 @@ const main = async () => {
           fail("Daemon not running. Run 'agent-ios start-session' first.");
           return;
         }
+        const format = options.format as "json" | "tree" | undefined;
+        if (format && !["json", "tree"].includes(format)) {
+          fail("Invalid format. Use: json, tree");
+          return;
+        }
+        const depth = options.depth ? parseInt(options.depth, 10) : undefined;
+        if (depth !== undefined && (isNaN(depth) || depth < 0)) {
+          fail("Invalid depth. Use a non-negative integer.");
+          return;
+        }
+        const maxTokens = options["max-tokens"]
+          ? parseInt(options["max-tokens"], 10)
+          : undefined;
+        if (maxTokens !== undefined && (isNaN(maxTokens) || maxTokens <= 0)) {
+          fail("Invalid max-tokens. Use a positive integer.");
+          return;
+        }
         await sendCommand({
           id: generateId(),
           action: "snapshot",
+          ref: positional[0],
+          depth,
+          format,
+          interactive: options.interactive === "true" || undefined,
+          diff: options.diff === "true" || undefined,
+          maxTokens,
         });
         break;
       }
 
+      case "find": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const findCommand = {
+          id: generateId(),
+          action: "find" as const,
+          type: options.type,
+          label: options.label,
+          identifier: options.identifier,
+          value: options.value,
+          contains: positional[0] ?? options.contains,
+          matches: options.matches,
+        };
+        if (
+          !findCommand.type &&
+          !findCommand.label &&
+          !findCommand.identifier &&
+          !findCommand.value &&
+          !findCommand.contains &&
+          !findCommand.matches
+        ) {
+          fail(
+            "Missing search criteria. Usage: agent-ios find [text] [--contains <text>] [--type <type>] [--label <label>] [--identifier <id>] [--value <value>] [--matches <regex>]",
+          );
+          return;
+        }
+        await sendCommand(findCommand);
+        break;
+      }
+
       case "screenshot": {
         if (!isDaemonRunning()) {
           fail("Daemon not running. Run 'agent-ios start-session' first.");
           return;
         }
-        await sendCommand({
+        const imageFormat = options.format as "png" | "jpeg" | undefined;
+        if (imageFormat && !["png", "jpeg"].includes(imageFormat)) {
+          fail("Invalid format. Use: png, jpeg");
+          return;
+        }
+        const quality = options.quality
+          ? parseInt(options.quality, 10)
+          : undefined;
+        if (
+          quality !== undefined &&
+          (isNaN(quality) || quality < 1 || quality > 100)
+        ) {
+          fail("Invalid quality. Use an integer from 1 to 100.");
+          return;
+        }
+        const scale = options.scale ? parseFloat(options.scale) : undefined;
+        if (scale !== undefined && (isNaN(scale) || scale <= 0 || scale > 1)) {
+          fail("Invalid scale. Use a factor greater than 0 and at most 1.");
+          return;
+        }
+        const threshold = options.threshold
+          ? parseFloat(options.threshold)
+          : undefined;
+        if (
+          threshold !== undefined &&
+          (isNaN(threshold) || threshold < 0 || threshold > 1)
+        ) {
+          fail("Invalid threshold. Use a number from 0 to 1.");
+          return;
+        }
+        const maxMismatch = options["max-mismatch"]
+          ? parseFloat(options["max-mismatch"])
+          : undefined;
+        if (
+          maxMismatch !== undefined &&
+          (isNaN(maxMismatch) || maxMismatch < 0 || maxMismatch > 100)
+        ) {
+          fail("Invalid max-mismatch. Use a percentage from 0 to 100.");
+          return;
+        }
+        const response = await sendCommand({
           id: generateId(),
           action: "screenshot",
           out: options.out,
+          ref: positional[0],
+          format: imageFormat,
+          quality,
+          scale,
+          annotate: options.annotate === "true" || undefined,
+          interactive: options.interactive === "true" || undefined,
+          compare: options.compare,
+          threshold,
+          maxMismatch,
+          ignore: options.ignore?.split(/\s+/).filter(Boolean),
+          diffOut: options["diff-out"],
+          updateBaseline: options["update-baseline"] === "true" || undefined,
         });
+        // A failed comparison exits non-zero so CI steps fail
+        const data = response.success
+          ? (response.data as { match?: boolean })
+          : undefined;
+        if (data?.match === false) {
+          process.exit(1);
+        }
         break;
       }
 
@@ -328,10 +554,11 @@ const main = async () => {
           fail("Missing ref argument. Usage: agent-ios tap <ref>");
           return;
         }
-        await sendCommand({
+        await sendAction({
           id: generateId(),
           action: "tap",
           ref: tapRef,
+          ...parseActionOptions(options),
         });
         break;
       }
@@ -347,11 +574,12 @@ const main = async () => {
           fail("Missing arguments. Usage: agent-ios type <ref> <text>");
           return;
         }
-        await sendCommand({
+        await sendAction({
           id: generateId(),
           action: "type",
           ref: typeRef,
           text: typeText,
+          ...parseActionOptions(options),
         });
         break;
       }
@@ -366,10 +594,11 @@ const main = async () => {
           fail("Missing ref argument. Usage: agent-ios clear <ref>");
           return;
         }
-        await sendCommand({
+        await sendAction({
           id: generateId(),
           action: "clear",
           ref: clearRef,
+          ...parseActionOptions(options),
         });
         break;
       }
@@ -389,11 +618,393 @@ const main = async () => {
           fail("Invalid direction. Use: up, down, left, right");
           return;
         }
-        await sendCommand({
+        await sendAction({
           id: generateId(),
           action: "swipe",
           ref: swipeRef,
           direction: swipeDir,
+          ...parseActionOptions(options),
+        });
+        break;
+      }
+
+      case "swipe-screen": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const screenDir = positional[0] as "up" | "down" | "left" | "right";
+        if (!screenDir || !["up", "down", "left", "right"].includes(screenDir)) {
+          fail(
+            "Usage: agent-ios swipe-screen <up|down|left|right> [--distance <0-1>] [--from x,y] [--velocity <pt/s>]"
+          );
+          return;
+        }
+        const distance = options.distance
+          ? parseFloat(options.distance)
+          : undefined;
+        if (
+          distance !== undefined &&
+          (isNaN(distance) || distance <= 0 || distance > 1)
+        ) {
+          fail("Invalid distance. Use a fraction of the screen, e.g. 0.5.");
+          return;
+        }
+        const velocity = options.velocity
+          ? parseFloat(options.velocity)
+          : undefined;
+        if (velocity !== undefined && (isNaN(velocity) || velocity <= 0)) {
+          fail("Invalid velocity. Use a positive number of points per second.");
+          return;
+        }
+        let from: { x: number; y: number } | undefined;
+        if (options.from) {
+          const match = /^(-?[\d.]+),(-?[\d.]+)$/.exec(options.from);
+          if (!match) {
+            fail("Invalid --from. Use x,y in points, e.g. 200,600.");
+            return;
+          }
+          from = { x: parseFloat(match[1]), y: parseFloat(match[2]) };
+        }
+        await sendCommand({
+          id: generateId(),
+          action: "swipe-screen",
+          direction: screenDir,
+          distance,
+          from,
+          velocity,
+          ...parseAlertOptions(options),
+        });
+        break;
+      }
+
+      case "tap-at": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const tapX = parseFloat(positional[0]);
+        const tapY = parseFloat(positional[1]);
+        if (isNaN(tapX) || isNaN(tapY)) {
+          fail("Usage: agent-ios tap-at <x> <y> (screen points)");
+          return;
+        }
+        await sendCommand({
+          id: generateId(),
+          action: "tap-at",
+          x: tapX,
+          y: tapY,
+          ...parseAlertOptions(options),
+        });
+        break;
+      }
+
+      case "scroll-to": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const scrollTarget = positional[0];
+        if (!scrollTarget) {
+          fail(
+            "Missing ref. Usage: agent-ios scroll-to <ref|selector> [--container <ref>] [--max-swipes <n>]"
+          );
+          return;
+        }
+        const maxSwipes = options["max-swipes"]
+          ? parseInt(options["max-swipes"], 10)
+          : undefined;
+        if (maxSwipes !== undefined && (isNaN(maxSwipes) || maxSwipes <= 0)) {
+          fail("Invalid max-swipes. Use a positive integer.");
+          return;
+        }
+        // Each swipe takes a fresh source and a swipe gesture
+        await sendCommand(
+          {
+            id: generateId(),
+            action: "scroll-to",
+            ref: scrollTarget,
+            container: options.container,
+            maxSwipes,
+            ...parseAlertOptions(options),
+          },
+          DEFAULT_COMMAND_TIMEOUT + (maxSwipes ?? 10) * SWIPE_TIMEOUT,
+        );
+        break;
+      }
+
+      case "long-press": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const pressRef = positional[0];
+        if (!pressRef) {
+          fail("Missing ref. Usage: agent-ios long-press <ref> [--duration <ms>]");
+          return;
+        }
+        const pressDuration = options.duration
+          ? parseInt(options.duration, 10)
+          : undefined;
+        if (
+          pressDuration !== undefined &&
+          (isNaN(pressDuration) || pressDuration <= 0)
+        ) {
+          fail("Invalid duration. Use a positive number of milliseconds.");
+          return;
+        }
+        await sendAction({
+          id: generateId(),
+          action: "long-press",
+          ref: pressRef,
+          duration: pressDuration,
+          ...parseActionOptions(options),
+        });
+        break;
+      }
+
+      case "double-tap": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const doubleTapRef = positional[0];
+        if (!doubleTapRef) {
+          fail("Missing ref. Usage: agent-ios double-tap <ref>");
+          return;
+        }
+        await sendAction({
+          id: generateId(),
+          action: "double-tap",
+          ref: doubleTapRef,
+          ...parseActionOptions(options),
+        });
+        break;
+      }
+
+      case "drag": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const [dragFrom, dragTo] = positional;
+        if (!dragFrom || !dragTo) {
+          fail("Missing arguments. Usage: agent-ios drag <from-ref> <to-ref|x,y>");
+          return;
+        }
+        const dragPoint = /^(-?[\d.]+),(-?[\d.]+)$/.exec(dragTo);
+        const dragDuration = options.duration
+          ? parseInt(options.duration, 10)
+          : undefined;
+        if (
+          dragDuration !== undefined &&
+          (isNaN(dragDuration) || dragDuration <= 0)
+        ) {
+          fail("Invalid duration. Use a positive number of milliseconds.");
+          return;
+        }
+        await sendAction({
+          id: generateId(),
+          action: "drag",
+          from: dragFrom,
+          to: dragPoint
+            ? { x: parseFloat(dragPoint[1]), y: parseFloat(dragPoint[2]) }
+            : dragTo,
+          duration: dragDuration,
+          ...parseActionOptions(options),
+        });
+        break;
+      }
+
+      case "pinch": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const pinchRef = positional[0];
+        const pinchScale = options.scale ? parseFloat(options.scale) : NaN;
+        if (!pinchRef || isNaN(pinchScale) || pinchScale <= 0) {
+          fail(
+            "Usage: agent-ios pinch <ref> --scale <factor> (above 1 zooms in, below 1 zooms out)"
+          );
+          return;
+        }
+        const pinchDuration = options.duration
+          ? parseInt(options.duration, 10)
+          : undefined;
+        if (
+          pinchDuration !== undefined &&
+          (isNaN(pinchDuration) || pinchDuration <= 0)
+        ) {
+          fail("Invalid duration. Use a positive number of milliseconds.");
+          return;
+        }
+        await sendAction({
+          id: generateId(),
+          action: "pinch",
+          ref: pinchRef,
+          scale: pinchScale,
+          duration: pinchDuration,
+          ...parseActionOptions(options),
+        });
+        break;
+      }
+
+      case "gesture": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const gestureJson = options.file
+          ? fs.readFileSync(options.file, "utf-8")
+          : positional[0];
+        if (!gestureJson) {
+          fail("Missing actions. Usage: agent-ios gesture '<json>' or --file <path>");
+          return;
+        }
+        let gestureInput: unknown;
+        try {
+          gestureInput = JSON.parse(gestureJson);
+        } catch (err) {
+          fail(`Invalid JSON: ${err instanceof Error ? err.message : err}`);
+          return;
+        }
+        // Accept the bare sequence array or a W3C body with an actions key
+        const sequences = z
+          .array(PointerSequenceSchema)
+          .min(1)
+          .safeParse(
+            Array.isArray(gestureInput)
+              ? gestureInput
+              : (gestureInput as { actions?: unknown })?.actions
+          );
+        if (!sequences.success) {
+          const issues = sequences.error.issues.map(
+            (issue) => `${issue.path.join(".") || "actions"}: ${issue.message}`
+          );
+          fail(`Invalid actions. ${issues.join("; ")}`);
+          return;
+        }
+        await sendCommand({
+          id: generateId(),
+          action: "gesture",
+          actions: sequences.data,
+          ...parseAlertOptions(options),
+        });
+        break;
+      }
+
+      case "set-value": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const [valueRef, newValue] = positional;
+        if (!valueRef || newValue === undefined) {
+          fail("Missing arguments. Usage: agent-ios set-value <ref> <value>");
+          return;
+        }
+        await sendAction({
+          id: generateId(),
+          action: "set-value",
+          ref: valueRef,
+          value: newValue,
+          ...parseActionOptions(options),
+        });
+        break;
+      }
+
+      case "fill": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        if (!options.data || options.data === "true") {
+          fail(`Missing fields. Usage: agent-ios fill --data '{"Email":"a@b.c"}'`);
+          return;
+        }
+        let fillInput: unknown;
+        try {
+          fillInput = JSON.parse(options.data);
+        } catch (err) {
+          fail(`Invalid JSON: ${err instanceof Error ? err.message : err}`);
+          return;
+        }
+        const fields = z.record(z.string(), z.string()).safeParse(fillInput);
+        if (!fields.success) {
+          fail("Invalid --data. Give a JSON object mapping field names to text.");
+          return;
+        }
+        // Every field waits for actionability on its own
+        await sendAction(
+          {
+            id: generateId(),
+            action: "fill",
+            data: fields.data,
+            ...parseActionOptions(options),
+          },
+          Object.keys(fields.data).length,
+        );
+        break;
+      }
+
+      case "press": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const button = positional[0] as
+          | "home"
+          | "volume-up"
+          | "volume-down"
+          | "lock";
+        if (!["home", "volume-up", "volume-down", "lock"].includes(button)) {
+          fail("Usage: agent-ios press <home|volume-up|volume-down|lock>");
+          return;
+        }
+        await sendCommand({
+          id: generateId(),
+          action: "press",
+          button,
+          ...parseAlertOptions(options),
+        });
+        break;
+      }
+
+      case "key": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const key = positional[0] as "return" | "delete" | "tab" | "escape";
+        if (!["return", "delete", "tab", "escape"].includes(key)) {
+          fail("Usage: agent-ios key <return|delete|tab|escape>");
+          return;
+        }
+        await sendCommand({
+          id: generateId(),
+          action: "key",
+          key,
+          ...parseAlertOptions(options),
+        });
+        break;
+      }
+
+      case "keyboard": {
+        if (!isDaemonRunning()) {
+          fail("Daemon not running. Run 'agent-ios start-session' first.");
+          return;
+        }
+        const operation = positional[0] as "hide" | "status";
+        if (!["hide", "status"].includes(operation)) {
+          fail("Usage: agent-ios keyboard <hide|status>");
+          return;
+        }
+        await sendCommand({
+          id: generateId(),
+          action: "keyboard",
+          operation,
+          ...parseAlertOptions(options),
         });
         break;
       }
@@ -413,12 +1024,19 @@ const main = async () => {
         const timeout = options.timeout
           ? parseInt(options.timeout, 10)
           : undefined;
-        await sendCommand({
-          id: generateId(),
-          action: "wait",
-          ref: waitRef,
-          timeout,
-        });
+        if (timeout !== undefined && (isNaN(timeout) || timeout <= 0)) {
+          fail("Invalid timeout. Use a positive number of milliseconds.");
+          return;
+        }
+        await sendCommand(
+          {
+            id: generateId(),
+            action: "wait",
+            ref: waitRef,
+            timeout,
+          },
+          DEFAULT_COMMAND_TIMEOUT + (timeout ?? 10000),
+        );
         break;
       }
 
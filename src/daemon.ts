@@ -1,6 +1,12 @@
 import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import {
+  type AlertInfo,
+  type AlertRule,
   type Command,
+  type HandledAlert,
+  type PointerSequence,
   type Response,
   getSocketPath,
   getPidPath,
@@ -16,17 +22,50 @@ import {
   openSimulatorApp,
   getBootedSimulator,
   installApp,
+  takeScreenshot,
   type Simulator,
 } from "./simctl.js";
 import { WDAManager } from "./wda.js";
-import { WDAClient } from "./wda-client.js";
+import { WDAClient, type ScreenSize } from "./wda-client.js";
 import {
   parseWDASource,
+  formatSnapshotTree,
+  filterInteractive,
+  diffSnapshots,
+  formatSnapshotDiff,
+  findElements,
+  condenseSnapshot,
+  shortType,
+  isScrollable,
+  rectMatchesFrame,
   createRefStore,
   resolveRef,
   RefResolutionError,
   type RefStore,
+  type RefMapEntry,
+  type Snapshot,
+  type Element,
+  type ScrollDirection,
+  type KeyboardState,
+  type FindQuery,
+  type CondenseReport,
 } from "./snapshot.js";
+import { isSelector, parseSelector, SelectorError } from "./selector.js";
+import { annotateScreenshot } from "./annotate.js";
+import { decodePNG, encodePNG, PNGError, type PNGImage } from "./png.js";
+import { encodeJPEG } from "./jpeg.js";
+import { cropImage, scaleImage } from "./image.js";
+import { compareImages, CompareError, type Region } from "./visual-diff.js";
+import {
+  ActionabilityError,
+  ensureActionable,
+  waitForActionable,
+  type ActionabilityClient,
+  type ActionOptions,
+} from "./actionability.js";
+
+// Alert rule with its pattern compiled once per session
+type CompiledAlertRule = AlertRule & { pattern: RegExp };
 
 // Session state
 interface SessionState {
@@ -34,6 +73,8 @@ interface SessionState {
   wdaManager: WDAManager | null;
   wdaClient: WDAClient | null;
   refStore: RefStore;
+  lastSnapshot: Snapshot | null; // Baseline for `snapshot --diff`
+  alertRules: CompiledAlertRule[]; // Answer alerts before element actions
   startedAt: Date;
 }
 
@@ -42,14 +83,16 @@ const state: SessionState = {
   wdaManager: null,
   wdaClient: null,
   refStore: createRefStore(),
+  lastSnapshot: null,
+  alertRules: [],
   startedAt: new Date(),
 };
 
 // Command handler
-const handleCommand = async (command: Command): Promise<Response> => {
+const dispatchCommand = async (command: Command): Promise<Response> => {
   switch (command.action) {
     case "start-session":
-      return handleStartSession(command.id, command.sim);
+      return handleStartSession(command.id, command.sim, command.alertRules);
 
     case "stop-session":
       return handleStopSession(command.id);
@@ -61,22 +104,136 @@ const handleCommand = async (command: Command): Promise<Response> => {
       return handleListSims(command.id);
 
     case "snapshot":
-      return handleSnapshot(command.id);
+      return handleSnapshot(command.id, {
+        ref: command.ref,
+        depth: command.depth,
+        format: command.format,
+        interactive: command.interactive,
+        diff: command.diff,
+        maxTokens: command.maxTokens,
+      });
+
+    case "find":
+      return handleFind(command.id, {
+        type: command.type,
+        label: command.label,
+        identifier: command.identifier,
+        value: command.value,
+        contains: command.contains,
+        matches: command.matches,
+      });
 
     case "screenshot":
-      return handleScreenshot(command.id, command.out);
+      return handleScreenshot(command.id, command.out, {
+        ref: command.ref,
+        format: command.format,
+        quality: command.quality,
+        scale: command.scale,
+        annotate: command.annotate,
+        interactive: command.interactive,
+        compare: command.compare,
+        threshold: command.threshold,
+        maxMismatch: command.maxMismatch,
+        ignore: command.ignore,
+        diffOut: command.diffOut,
+        updateBaseline: command.updateBaseline,
+      });
 
     case "tap":
-      return handleTap(command.id, command.ref);
+      return handleTap(command.id, command.ref, {
+        force: command.force,
+        timeout: command.timeout,
+      });
 
     case "type":
-      return handleType(command.id, command.ref, command.text);
+      return handleType(command.id, command.ref, command.text, {
+        force: command.force,
+        timeout: command.timeout,
+      });
 
     case "clear":
-      return handleClear(command.id, command.ref);
+      return handleClear(command.id, command.ref, {
+        force: command.force,
+        timeout: command.timeout,
+      });
 
     case "swipe":
-      return handleSwipe(command.id, command.ref, command.direction);
+      return handleSwipe(command.id, command.ref, command.direction, {
+        force: command.force,
+        timeout: command.timeout,
+      });
+
+    case "swipe-screen":
+      return handleSwipeScreen(command.id, command.direction, {
+        distance: command.distance,
+        from: command.from,
+        velocity: command.velocity,
+      });
+
+    case "tap-at":
+      return handleTapAt(command.id, command.x, command.y);
+
+    case "scroll-to":
+      return handleScrollTo(
+        command.id,
+        command.ref,
+        command.container,
+        command.maxSwipes
+      );
+
+    case "long-press":
+      return handleLongPress(command.id, command.ref, command.duration, {
+        force: command.force,
+        timeout: command.timeout,
+      });
+
+    case "double-tap":
+      return handleDoubleTap(command.id, command.ref, {
+        force: command.force,
+        timeout: command.timeout,
+      });
+
+    case "drag":
+      return handleDrag(
+        command.id,
+        command.from,
+        command.to,
+        command.duration,
+        { force: command.force, timeout: command.timeout }
+      );
+
+    case "pinch":
+      return handlePinch(
+        command.id,
+        command.ref,
+        command.scale,
+        command.duration,
+        { force: command.force, timeout: command.timeout }
+      );
+
+    case "gesture":
+      return handleGesture(command.id, command.actions);
+
+    case "set-value":
+      return handleSetValue(command.id, command.ref, command.value, {
+        force: command.force,
+        timeout: command.timeout,
+      });
+
+    case "fill":
+      return handleFill(command.id, command.data, {
+        force: command.force,
+        timeout: command.timeout,
+      });
+
+    case "press":
+      return handlePress(command.id, command.button);
+
+    case "key":
+      return handleKey(command.id, command.key);
+
+    case "keyboard":
+      return handleKeyboard(command.id, command.operation);
 
     case "wait":
       return handleWait(command.id, command.ref, command.timeout);
@@ -106,9 +263,236 @@ const handleCommand = async (command: Command): Promise<Response> => {
   }
 };
 
+// Commands whose responses report an alert showing after they ran
+const ALERT_CHECKED_ACTIONS = new Set<Command["action"]>([
+  "snapshot",
+  "find",
+  "screenshot",
+  "wait",
+  "tap",
+  "type",
+  "clear",
+  "swipe",
+  "swipe-screen",
+  "tap-at",
+  "scroll-to",
+  "long-press",
+  "double-tap",
+  "drag",
+  "pinch",
+  "gesture",
+  "set-value",
+  "fill",
+  "press",
+  "key",
+  "keyboard",
+  "alert-accept",
+  "alert-dismiss",
+  "alert-button",
+  "launch",
+]);
+
+// Commands that act on the device: the session's alert rules run before
+// them
+const ALERT_RULE_ACTIONS = new Set<Command["action"]>([
+  "tap",
+  "type",
+  "clear",
+  "swipe",
+  "swipe-screen",
+  "tap-at",
+  "scroll-to",
+  "long-press",
+  "double-tap",
+  "drag",
+  "pinch",
+  "gesture",
+  "set-value",
+  "fill",
+  "press",
+  "key",
+  "keyboard",
+]);
+
+// Commands acting on app elements: an alert still in front of the app
+// (after the rules ran) blocks them
+const ALERT_BLOCKED_ACTIONS = new Set<Command["action"]>([
+  "tap",
+  "type",
+  "clear",
+  "swipe",
+  "scroll-to",
+  "long-press",
+  "double-tap",
+  "drag",
+  "pinch",
+  "set-value",
+  "fill",
+]);
+
+// The alert currently shown, with its button labels, or null
+const readAlert = async (client: WDAClient): Promise<AlertInfo | null> => {
+  try {
+    const text = await client.getAlertText();
+    if (text === null) return null;
+    return { text, buttons: await client.getAlertButtons() };
+  } catch {
+    // No way to tell; let the command run
+    return null;
+  }
+};
+
+// Whether an action's target is part of the alert itself (e.g. a ref of one
+// of its buttons from a snapshot), which the alert doesn't block
+const targetsAlert = async (
+  client: WDAClient,
+  command: Command
+): Promise<boolean> => {
+  const target =
+    command.action === "drag" ? command.from : "ref" in command ? command.ref : null;
+  if (!target) return false;
+
+  try {
+    const [alertElement] = await client.findElements(
+      "class name",
+      "XCUIElementTypeAlert"
+    );
+    const alertRect =
+      alertElement && (await client.getElementRect(alertElement.ELEMENT));
+    if (!alertRect) return false;
+
+    let frame = state.refStore.get(target)?.frame;
+    if (!frame) {
+      const rect = await client.getElementRect(
+        await resolveRef(target, state.refStore, client)
+      );
+      if (!rect) return false;
+      frame = { x: rect.x, y: rect.y, w: rect.width, h: rect.height };
+    }
+    return (
+      frame.x >= alertRect.x - 1 &&
+      frame.y >= alertRect.y - 1 &&
+      frame.x + frame.w <= alertRect.x + alertRect.width + 1 &&
+      frame.y + frame.h <= alertRect.y + alertRect.height + 1
+    );
+  } catch {
+    return false;
+  }
+};
+
+// Most alerts the rules answer before one action, e.g. notification and
+// location prompts showing back to back
+const MAX_HANDLED_ALERTS = 3;
+
+// Wait for an answered alert to go away, so it isn't answered twice while
+// it animates out
+const waitForAlertGone = async (client: WDAClient, text: string) => {
+  const deadline = Date.now() + 1000;
+  while (Date.now() < deadline) {
+    const alert = await readAlert(client);
+    if (!alert || alert.text !== text) return;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+};
+
+// Answer alerts with the session's alert rules until none is showing or no
+// rule matches the one that is
+const applyAlertRules = async (client: WDAClient): Promise<HandledAlert[]> => {
+  const handled: HandledAlert[] = [];
+  while (handled.length < MAX_HANDLED_ALERTS) {
+    const alert = await readAlert(client);
+    if (!alert) break;
+
+    const index = state.alertRules.findIndex(
+      (rule) =>
+        rule.pattern.test(alert.text) &&
+        (rule.button === undefined || alert.buttons.includes(rule.button))
+    );
+    if (index === -1) break;
+
+    const rule = state.alertRules[index];
+    try {
+      if (rule.button !== undefined) {
+        await client.acceptAlert(rule.button);
+      } else if (rule.action === "dismiss") {
+        await client.dismissAlert();
+      } else {
+        await client.acceptAlert();
+      }
+    } catch (err) {
+      console.error(
+        `Alert rule ${index} (${JSON.stringify(rule.textMatches)}) failed on ${JSON.stringify(alert.text)}: ${err instanceof Error ? err.message : err}`
+      );
+      break;
+    }
+
+    console.error(
+      `Alert rule ${index} (${JSON.stringify(rule.textMatches)}) answered ${JSON.stringify(alert.text)} with ${rule.button !== undefined ? JSON.stringify(rule.button) : rule.action}`
+    );
+    handled.push({
+      rule: index,
+      textMatches: rule.textMatches,
+      text: alert.text,
+      ...(rule.button !== undefined
+        ? { button: rule.button }
+        : { action: rule.action }),
+    });
+    await waitForAlertGone(client, alert.text);
+  }
+  return handled;
+};
+
+const alertSuggestion = (alert: AlertInfo): string =>
+  alert.buttons.length > 0
+    ? `Use 'alert-button <label>' with one of ${alert.buttons.map((button) => JSON.stringify(button)).join(", ")}, or 'alert-accept' / 'alert-dismiss'.`
+    : "Use 'alert-accept' or 'alert-dismiss' to handle it.";
+
+// Run a command, checking for alerts around it: before every action the
+// session's alert rules answer matching alerts, and element actions fail
+// fast while another alert is in front of the app. Any alert showing afterwards
+// (e.g. a permission prompt the action triggered) comes back with the
+// response.
+const handleCommand = async (command: Command): Promise<Response> => {
+  const client = state.wdaClient;
+  if (!client || !ALERT_CHECKED_ACTIONS.has(command.action)) {
+    return dispatchCommand(command);
+  }
+
+  let handledAlerts: HandledAlert[] = [];
+  if (ALERT_RULE_ACTIONS.has(command.action)) {
+    const autoAlerts = !("autoAlerts" in command) || command.autoAlerts !== false;
+    if (autoAlerts && state.alertRules.length > 0) {
+      handledAlerts = await applyAlertRules(client);
+    }
+  }
+
+  if (ALERT_BLOCKED_ACTIONS.has(command.action)) {
+    const alert = await readAlert(client);
+    if (alert && !(await targetsAlert(client, command))) {
+      return {
+        id: command.id,
+        success: false,
+        error: `Alert is blocking: ${JSON.stringify(alert.text)}`,
+        alert,
+        suggestion: alertSuggestion(alert),
+        ...(handledAlerts.length > 0 && { handledAlerts }),
+      };
+    }
+  }
+
+  const response = await dispatchCommand(command);
+  const alert = await readAlert(client);
+  return {
+    ...response,
+    ...(alert && { alert }),
+    ...(handledAlerts.length > 0 && { handledAlerts }),
+  };
+};
+
 const handleStartSession = async (
   id: string,
-  simName?: string
+  simName?: string,
+  alertRules: AlertRule[] = []
 ): Promise<Response> => {
   try {
     let simulator: Simulator | null = null;
@@ -143,6 +527,10 @@ const handleStartSession = async (
     }
 
     state.simulator = simulator;
+    state.alertRules = alertRules.map((rule) => ({
+      ...rule,
+      pattern: new RegExp(rule.textMatches, "i"),
+    }));
 
     // Start WDA
     console.error(`Starting WebDriverAgent for ${simulator.name}...`);
@@ -186,6 +574,7 @@ const handleStartSession = async (
         url: state.wdaManager.baseUrl,
         ready: true,
       },
+      alertRules: alertRules.length,
       message: `Session started with ${simulator.name}`,
     });
   } catch (err) {
@@ -214,7 +603,8 @@ const handleStopSession = async (id: string): Promise<Response> => {
     }
 
     // Clear refs
-    state.refStore.clear();
+    state.refStore.reset();
+    state.lastSnapshot = null;
 
     if (state.simulator) {
       state.simulator = null;
@@ -294,7 +684,30 @@ const handleListSims = async (id: string): Promise<Response> => {
   }
 };
 
-const handleSnapshot = async (id: string): Promise<Response> => {
+// Make refs from a parsed snapshot resolvable. The store also keeps each
+// frame for coordinate fallbacks.
+const registerRefs = (parsed: Snapshot, elements: Element[]) => {
+  for (const element of elements) {
+    state.refStore.set(element.ref, {
+      ...parsed.refMap[element.ref],
+      frame: element.frame,
+    });
+  }
+};
+
+interface SnapshotOptions {
+  ref?: string;
+  depth?: number;
+  format?: "json" | "tree";
+  interactive?: boolean;
+  diff?: boolean;
+  maxTokens?: number;
+}
+
+const handleSnapshot = async (
+  id: string,
+  options: SnapshotOptions = {}
+): Promise<Response> => {
   if (!state.wdaClient) {
     return errorResponse(
       id,
@@ -302,21 +715,129 @@ const handleSnapshot = async (id: string): Promise<Response> => {
     );
   }
 
+  const partial = options.ref !== undefined || options.depth !== undefined;
+  if (options.diff && partial) {
+    return errorResponse(
+      id,
+      "--diff compares full snapshots and cannot be combined with a ref or --depth."
+    );
+  }
+  if (options.diff && options.maxTokens !== undefined) {
+    return errorResponse(id, "--max-tokens cannot be combined with --diff.");
+  }
+
+  if (options.ref && isSelector(options.ref)) {
+    try {
+      parseSelector(options.ref);
+    } catch (err) {
+      if (err instanceof SelectorError) {
+        return errorResponse(
+          id,
+          `Invalid ref or selector: ${options.ref}. ${err.message}.`
+        );
+      }
+      throw err;
+    }
+  }
+
+  let scope: { ref: string; entry: RefMapEntry } | undefined;
+  if (options.ref && !isSelector(options.ref)) {
+    const entry = state.refStore.get(options.ref);
+    if (!entry) {
+      return errorResponse(
+        id,
+        `Unknown ref: ${options.ref}. Run 'snapshot' first to get element refs.`
+      );
+    }
+    scope = { ref: options.ref, entry };
+  }
+
   try {
     // Get source XML from WDA
     const xml = await state.wdaClient.getSource();
 
-    // Parse to our JSON format
-    const snapshot = parseWDASource(xml);
+    // A selector is located in the full source, then scoped to like a ref
+    if (options.ref && isSelector(options.ref)) {
+      const full = parseWDASource(xml, { refStore: state.refStore });
+      const element = await locateInSnapshot(
+        state.wdaClient,
+        full,
+        options.ref
+      );
+      if (!element) {
+        return errorResponse(
+          id,
+          `No element matches ${options.ref}. Run 'snapshot' to see what is on screen.`
+        );
+      }
+      scope = { ref: element.ref, entry: full.refMap[element.ref] };
+    }
+
+    // Parse to our JSON format (unfiltered)
+    const parsed = parseWDASource(xml, {
+      scope,
+      maxDepth: options.depth,
+      refStore: state.refStore,
+      newGeneration: true,
+    });
+
+    // A partial snapshot only refreshes its own refs; refs outside the
+    // subtree stay valid. A full one replaces the store and the diff baseline.
+    const previousSnapshot = state.lastSnapshot;
+    if (!partial) {
+      state.lastSnapshot = parsed;
+      state.refStore.clear();
+    }
+
+    // Register every parsed ref, so refs hidden by filtering still resolve
+    registerRefs(parsed, parsed.elements);
+
+    const view = (snapshot: Snapshot): Snapshot =>
+      options.interactive ? filterInteractive(snapshot) : snapshot;
+
+    if (options.diff) {
+      const diff = diffSnapshots(
+        previousSnapshot && view(previousSnapshot),
+        view(parsed)
+      );
+      if (options.format === "tree") {
+        return successResponse(id, {
+          timestamp: diff.timestamp,
+          since: diff.since,
+          format: "tree",
+          text: formatSnapshotDiff(diff),
+        });
+      }
+      return successResponse(id, diff);
+    }
+
+    const render = (snapshot: Snapshot): string =>
+      options.format === "tree"
+        ? formatSnapshotTree(snapshot)
+        : JSON.stringify(snapshot);
+
+    let snapshot = view(parsed);
+    let condensed: CondenseReport | undefined;
+    if (options.maxTokens !== undefined) {
+      const result = condenseSnapshot(snapshot, options.maxTokens, render);
+      snapshot = result.snapshot;
+      condensed = result.report;
+    }
 
-    // Update ref store
-    state.refStore.clear();
-    for (const [ref, entry] of Object.entries(snapshot.refMap)) {
-      state.refStore.set(ref, entry);
+    if (options.format === "tree") {
+      return successResponse(id, {
+        timestamp: snapshot.timestamp,
+        format: "tree",
+        text: render(snapshot),
+        ...(condensed && { condensed }),
+      });
     }
 
-    return successResponse(id, snapshot);
+    return successResponse(id, { ...snapshot, ...(condensed && { condensed }) });
   } catch (err) {
+    if (err instanceof RefResolutionError) {
+      return errorResponse(id, err.message);
+    }
     return errorResponse(
       id,
       `Failed to get snapshot: ${err instanceof Error ? err.message : "Unknown error"}`
@@ -324,9 +845,9 @@ const handleSnapshot = async (id: string): Promise<Response> => {
   }
 };
 
-const handleScreenshot = async (
+const handleFind = async (
   id: string,
-  outPath?: string
+  query: FindQuery
 ): Promise<Response> => {
   if (!state.wdaClient) {
     return errorResponse(
@@ -335,144 +856,1845 @@ const handleScreenshot = async (
     );
   }
 
-  try {
-    if (outPath) {
-      // Save to file
-      const buffer = await state.wdaClient.screenshotBuffer();
-      fs.writeFileSync(outPath, buffer);
-      return successResponse(id, {
-        saved: true,
-        path: outPath,
-        size: buffer.length,
-      });
-    } else {
-      // Return base64
-      const base64 = await state.wdaClient.screenshot();
-      return successResponse(id, {
-        format: "base64",
-        data: base64,
-      });
-    }
-  } catch (err) {
+  if (Object.values(query).every((criterion) => criterion === undefined)) {
     return errorResponse(
       id,
-      `Failed to take screenshot: ${err instanceof Error ? err.message : "Unknown error"}`
+      "No search criteria. Give at least one of type, label, identifier, value, contains or matches."
     );
   }
-};
 
-const handleTap = async (id: string, ref: string): Promise<Response> => {
-  if (!state.wdaClient) {
-    return errorResponse(
-      id,
-      "WDA not running. Run 'agent-ios start-session' first."
-    );
+  if (query.matches !== undefined) {
+    try {
+      new RegExp(query.matches);
+    } catch (err) {
+      return errorResponse(
+        id,
+        `Invalid regex: ${err instanceof Error ? err.message : query.matches}`
+      );
+    }
   }
 
   try {
-    const elementId = await resolveRef(
-      ref,
-      state.refStore,
-      state.wdaClient.findElement.bind(state.wdaClient)
-    );
-    await state.wdaClient.click(elementId);
-    return successResponse(id, { action: "tap", ref, success: true });
+    const xml = await state.wdaClient.getSource();
+    const parsed = parseWDASource(xml, {
+      refStore: state.refStore,
+      newGeneration: true,
+    });
+    const found = findElements(parsed, query);
+
+    // Register only the matches; other refs in the store stay as they were
+    registerRefs(parsed, found);
+
+    return successResponse(id, {
+      action: "find",
+      count: found.length,
+      elements: found.map(({ children: _children, ...summary }) => summary),
+    });
   } catch (err) {
-    if (err instanceof RefResolutionError) {
-      return errorResponse(id, err.message);
-    }
     return errorResponse(
       id,
-      `Failed to tap ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+      `Failed to find elements: ${err instanceof Error ? err.message : "Unknown error"}`
     );
   }
 };
 
-const handleType = async (
-  id: string,
-  ref: string,
-  text: string
-): Promise<Response> => {
-  if (!state.wdaClient) {
-    return errorResponse(
-      id,
-      "WDA not running. Run 'agent-ios start-session' first."
-    );
+interface ScreenshotOptions {
+  ref?: string;
+  format?: "png" | "jpeg";
+  quality?: number;
+  scale?: number;
+  annotate?: boolean;
+  interactive?: boolean;
+  compare?: string;
+  threshold?: number;
+  maxMismatch?: number;
+  ignore?: string[];
+  diffOut?: string;
+  updateBaseline?: boolean;
+}
+
+// Full-screen PNG. Falls back to simctl when WDA is down or failing, since
+// a screenshot doesn't need an automation session.
+const captureScreen = async (): Promise<{
+  png: Buffer;
+  source: "wda" | "simctl";
+}> => {
+  let wdaError: unknown;
+  if (state.wdaClient) {
+    try {
+      return { png: await state.wdaClient.screenshotBuffer(), source: "wda" };
+    } catch (err) {
+      wdaError = err;
+    }
+  }
+  if (!state.simulator) {
+    throw wdaError ?? new Error("WDA not running.");
   }
 
+  const tmpPath = path.join(
+    os.tmpdir(),
+    `agent-ios-screenshot-${process.pid}-${Date.now()}.png`
+  );
   try {
-    const elementId = await resolveRef(
-      ref,
-      state.refStore,
-      state.wdaClient.findElement.bind(state.wdaClient)
-    );
-    await state.wdaClient.type(elementId, text);
-    return successResponse(id, { action: "type", ref, text, success: true });
-  } catch (err) {
-    if (err instanceof RefResolutionError) {
-      return errorResponse(id, err.message);
+    await takeScreenshot(state.simulator.udid, tmpPath);
+    return { png: fs.readFileSync(tmpPath), source: "simctl" };
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+};
+
+// Screenshot of one element, from WDA's element screenshot endpoint. If WDA
+// can't provide it, crop a full-screen capture to the ref's snapshot frame.
+const captureElement = async (
+  ref: string
+): Promise<{ png?: Buffer; image?: PNGImage; source: "wda" | "simctl" }> => {
+  if (state.wdaClient) {
+    try {
+      await ensureOnscreen(state.wdaClient, ref);
+      const elementId = await resolveRef(ref, state.refStore, state.wdaClient);
+      return {
+        png: await state.wdaClient.elementScreenshot(elementId),
+        source: "wda",
+      };
+    } catch (err) {
+      // A ref that doesn't resolve won't crop correctly either
+      if (err instanceof RefResolutionError) throw err;
     }
-    return errorResponse(
-      id,
-      `Failed to type into ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+  }
+
+  const frame = state.refStore.get(ref)?.frame;
+  const screen = state.lastSnapshot?.elements.find(
+    (element) => element.ref === state.lastSnapshot!.tree
+  )?.frame;
+  if (!frame || !screen || screen.w <= 0) {
+    throw new Error(
+      `Cannot crop to ${ref} without WDA: no snapshot frame is known for it.`
     );
   }
+
+  const { png, source } = await captureScreen();
+  const full = decodePNG(png);
+  const scale = full.width / screen.w;
+  const image = cropImage(full, {
+    x: (frame.x - screen.x) * scale,
+    y: (frame.y - screen.y) * scale,
+    w: frame.w * scale,
+    h: frame.h * scale,
+  });
+  return { image, source };
+};
+
+// Status bar height in points: as WDA reports it, else the StatusBar
+// element's frame in the source
+const statusBarHeight = async (client: WDAClient): Promise<number> => {
+  const reported = await client.getStatusBarHeight();
+  if (reported) return reported;
+
+  const parsed = parseWDASource(await client.getSource());
+  const statusBar = parsed.elements.find(
+    (element) => element.type === "XCUIElementTypeStatusBar"
+  );
+  if (statusBar && statusBar.frame.h > 0) {
+    return statusBar.frame.y + statusBar.frame.h;
+  }
+  throw new CompareError(
+    "Couldn't determine the status bar height. Pass its region as x,y,w,h instead."
+  );
 };
 
-const handleClear = async (id: string, ref: string): Promise<Response> => {
+// Turn --ignore entries (refs, "x,y,w,h" in points, or "status-bar") into
+// pixel regions of an image `imageWidth` pixels wide
+const resolveIgnoreRegions = async (
+  entries: string[],
+  imageWidth: number
+): Promise<Region[]> => {
+  if (entries.length === 0) return [];
   if (!state.wdaClient) {
+    throw new CompareError("WDA not running. --ignore needs WDA for the window size.");
+  }
+
+  const window = await state.wdaClient.getScreenSize();
+  const scale = imageWidth / window.width;
+  const statusBar = entries.includes("status-bar")
+    ? await statusBarHeight(state.wdaClient)
+    : 0;
+
+  return entries.map((entry) => {
+    let frame: Element["frame"];
+    if (entry === "status-bar") {
+      frame = { x: 0, y: 0, w: window.width, h: statusBar };
+    } else if (/^-?[\d.]+(,-?[\d.]+){3}$/.test(entry)) {
+      const [x, y, w, h] = entry.split(",").map(Number);
+      frame = { x, y, w, h };
+    } else if (entry.startsWith("@e")) {
+      const stored = state.refStore.get(entry)?.frame;
+      if (!stored) {
+        throw new CompareError(
+          `Unknown ref: ${entry}. Run 'snapshot' first to get element refs.`
+        );
+      }
+      frame = stored;
+    } else {
+      throw new CompareError(
+        `Invalid ignore region "${entry}". Use a ref, x,y,w,h in points, or status-bar.`
+      );
+    }
+    return {
+      x: frame.x * scale,
+      y: frame.y * scale,
+      w: frame.w * scale,
+      h: frame.h * scale,
+    };
+  });
+};
+
+// Compare the current screen against a baseline PNG and write a diff image
+const compareScreenshot = async (
+  id: string,
+  baselinePath: string,
+  outPath: string | undefined,
+  options: ScreenshotOptions
+): Promise<Response> => {
+  const { png: buffer } = await captureScreen();
+  if (outPath) fs.writeFileSync(outPath, buffer);
+
+  if (options.updateBaseline) {
+    fs.mkdirSync(path.dirname(path.resolve(baselinePath)), { recursive: true });
+    fs.writeFileSync(baselinePath, buffer);
+    return successResponse(id, {
+      action: "compare",
+      baseline: baselinePath,
+      updated: true,
+      size: buffer.length,
+    });
+  }
+
+  if (!fs.existsSync(baselinePath)) {
     return errorResponse(
       id,
-      "WDA not running. Run 'agent-ios start-session' first."
+      `Baseline ${baselinePath} not found. Run with --update-baseline to create it.`
     );
   }
 
   try {
-    const elementId = await resolveRef(
-      ref,
-      state.refStore,
-      state.wdaClient.findElement.bind(state.wdaClient)
+    const baseline = decodePNG(fs.readFileSync(baselinePath));
+    const actual = decodePNG(buffer);
+    const ignore = await resolveIgnoreRegions(
+      options.ignore ?? [],
+      actual.width
     );
-    await state.wdaClient.clear(elementId);
-    return successResponse(id, { action: "clear", ref, success: true });
+    const result = compareImages(baseline, actual, {
+      threshold: options.threshold,
+      ignore,
+    });
+
+    const diffPath =
+      options.diffOut ?? baselinePath.replace(/(\.png)?$/i, ".diff.png");
+    fs.writeFileSync(diffPath, encodePNG(result.diff));
+
+    const maxMismatch = options.maxMismatch ?? 0;
+    return successResponse(id, {
+      action: "compare",
+      baseline: baselinePath,
+      diff: diffPath,
+      match: result.mismatch <= maxMismatch,
+      mismatch: Math.round(result.mismatch * 1000) / 1000,
+      mismatchedPixels: result.mismatchedPixels,
+      antialiasedPixels: result.antialiasedPixels,
+      ignoredPixels: result.ignoredPixels,
+      threshold: options.threshold ?? 0.1,
+      maxMismatch,
+    });
   } catch (err) {
-    if (err instanceof RefResolutionError) {
+    if (err instanceof PNGError) {
+      return errorResponse(id, `Failed to read image: ${err.message}`);
+    }
+    if (err instanceof CompareError) {
       return errorResponse(id, err.message);
     }
-    return errorResponse(
-      id,
-      `Failed to clear ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
-    );
+    throw err;
   }
 };
 
-const handleSwipe = async (
+const handleScreenshot = async (
   id: string,
-  ref: string,
-  direction: "up" | "down" | "left" | "right"
+  outPath?: string,
+  options: ScreenshotOptions = {}
 ): Promise<Response> => {
-  if (!state.wdaClient) {
+  if (!state.wdaClient && !state.simulator) {
     return errorResponse(
       id,
       "WDA not running. Run 'agent-ios start-session' first."
     );
   }
 
-  try {
-    const elementId = await resolveRef(
-      ref,
-      state.refStore,
-      state.wdaClient.findElement.bind(state.wdaClient)
+  if (options.interactive && !options.annotate) {
+    return errorResponse(id, "--interactive only applies with --annotate.");
+  }
+  if (options.annotate && options.ref) {
+    return errorResponse(id, "--annotate cannot be combined with a ref.");
+  }
+  if (options.quality !== undefined && options.format !== "jpeg") {
+    return errorResponse(id, "--quality only applies with --format jpeg.");
+  }
+  if (options.compare) {
+    const conflicting = [
+      options.annotate,
+      options.ref,
+      options.format,
+      options.scale,
+    ];
+    if (conflicting.some((option) => option !== undefined)) {
+      return errorResponse(
+        id,
+        "--compare compares full-size PNG screenshots and cannot be combined with --annotate, a ref, --format or --scale."
+      );
+    }
+  }
+  const compareOnly = [
+    options.threshold,
+    options.maxMismatch,
+    options.ignore,
+    options.diffOut,
+    options.updateBaseline,
+  ];
+  if (!options.compare && compareOnly.some((option) => option !== undefined)) {
+    return errorResponse(
+      id,
+      "--threshold, --max-mismatch, --ignore, --diff-out and --update-baseline only apply with --compare."
+    );
+  }
+
+  try {
+    if (options.compare) {
+      return await compareScreenshot(id, options.compare, outPath, options);
+    }
+
+    let png: Buffer | undefined;
+    let image: PNGImage | undefined;
+    let source: "wda" | "simctl" = "wda";
+    let marks: { generation?: number; refs: string[] } | undefined;
+
+    if (options.annotate) {
+      if (!state.wdaClient) {
+        return errorResponse(
+          id,
+          "WDA not running. --annotate needs WDA for the snapshot."
+        );
+      }
+      // Take a full snapshot alongside the screenshot so the marks match
+      // what's on screen; its refs replace the store like 'snapshot' does
+      const xml = await state.wdaClient.getSource();
+      const buffer = await state.wdaClient.screenshotBuffer();
+      const parsed = parseWDASource(xml, {
+        refStore: state.refStore,
+        newGeneration: true,
+      });
+      state.lastSnapshot = parsed;
+      state.refStore.clear();
+      registerRefs(parsed, parsed.elements);
+
+      const annotated = annotateScreenshot(
+        buffer,
+        options.interactive ? filterInteractive(parsed) : parsed
+      );
+      image = annotated.image;
+      marks = { generation: parsed.generation, refs: annotated.refs };
+    } else if (options.ref) {
+      ({ png, image, source } = await captureElement(options.ref));
+    } else {
+      ({ png, source } = await captureScreen());
+    }
+
+    // Re-encode only when something asks for it, so plain screenshots are
+    // passed through byte for byte
+    const format = options.format ?? "png";
+    if (image || format === "jpeg" || options.scale !== undefined) {
+      image = scaleImage(image ?? decodePNG(png!), options.scale ?? 1);
+      png =
+        format === "jpeg"
+          ? encodeJPEG(image, options.quality ?? 80)
+          : encodePNG(image);
+    }
+    const output = png!;
+
+    const details = {
+      ...(options.ref && { ref: options.ref }),
+      mimeType: format === "jpeg" ? "image/jpeg" : "image/png",
+      ...(image && { width: image.width, height: image.height }),
+      ...(source === "simctl" && { source }),
+      ...marks,
+    };
+
+    if (outPath) {
+      // Save to file
+      fs.writeFileSync(outPath, output);
+      return successResponse(id, {
+        saved: true,
+        path: outPath,
+        size: output.length,
+        ...details,
+      });
+    } else {
+      // Return base64
+      return successResponse(id, {
+        format: "base64",
+        data: output.toString("base64"),
+        ...details,
+      });
+    }
+  } catch (err) {
+    if (err instanceof RefResolutionError) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to take screenshot: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// Swipe that scrolls content in each direction
+const SWIPE_FOR_SCROLL = {
+  up: "down",
+  down: "up",
+  left: "right",
+  right: "left",
+} as const;
+
+// Fail early with a "scroll needed" error when a ref was offscreen in its
+// snapshot and still is. WDA either can't hit such elements or fails with an
+// unhelpful message.
+const ensureOnscreen = async (client: WDAClient, ref: string) => {
+  const entry = state.refStore.get(ref);
+  if (!entry || entry.visibility !== "offscreen") return;
+
+  let current: Element;
+  try {
+    const xml = await client.getSource();
+    current = parseWDASource(xml, {
+      scope: { ref, entry },
+      maxDepth: 0,
+      refStore: state.refStore,
+    }).elements[0];
+  } catch {
+    // Gone from the source: let the action report it as not found
+    return;
+  }
+
+  if (current.visibility !== "offscreen") {
+    // Scrolled into view since the snapshot
+    const updated = { ...entry, frame: current.frame };
+    delete updated.visibility;
+    delete updated.scrollHint;
+    state.refStore.set(ref, updated);
+    return;
+  }
+
+  const hint = current.scrollHint
+    ? ` Scroll ${current.scrollHint} (swipe ${SWIPE_FOR_SCROLL[current.scrollHint]} on its scroll view) to bring it onscreen, then retry.`
+    : " Scroll it into view, then retry.";
+  const label = current.label ? ` "${current.label}"` : "";
+  throw new RefResolutionError(
+    `Scroll needed: ${ref} (${shortType(current.type)}${label}) is offscreen.${hint}`,
+    ref,
+    "scroll"
+  );
+};
+
+// Where a touch action should go: a WDA element, or a screen point when
+// the element can't be found by query
+type TouchTarget =
+  | { elementId: string }
+  | { point: { x: number; y: number }; frame: Element["frame"] };
+
+// Actionability lookups for an element only the source can find: every
+// rect read locates the ref in a fresh source, and the attribute reads of
+// that poll use the same element. Hittability isn't in the source, so that
+// check passes.
+const sourceActionabilityClient = (
+  client: WDAClient,
+  ref: string,
+  entry: RefMapEntry
+): ActionabilityClient => {
+  let current: Element | null = null;
+  return {
+    getScreenSize: () => client.getScreenSize(),
+    async getElementRect() {
+      try {
+        const xml = await client.getSource();
+        current = parseWDASource(xml, {
+          scope: { ref, entry },
+          maxDepth: 0,
+          refStore: state.refStore,
+        }).elements[0];
+      } catch {
+        current = null;
+      }
+      if (!current) return null;
+      const { x, y, w, h } = current.frame;
+      return { x, y, width: w, height: h };
+    },
+    async getElementAttribute(_elementId, name) {
+      return name === "enabled" ? current?.enabled : undefined;
+    },
+  };
+};
+
+// Resolve a ref for a touch action. If no query finds the element (e.g. a
+// custom control without label or identifier), fall back to its snapshot
+// frame, as long as a fresh source still shows it at the same frame. The
+// fallback then runs the actionability checks against the source, unless
+// the action is forced.
+const resolveTouchTarget = async (
+  client: WDAClient,
+  ref: string,
+  options: ActionOptions
+): Promise<TouchTarget> => {
+  try {
+    return { elementId: await resolveRef(ref, state.refStore, client) };
+  } catch (err) {
+    const entry = state.refStore.get(ref);
+    const frame = entry?.frame;
+    // An ambiguous ref stays an error: its frame may be the wrong match
+    if (
+      !(err instanceof RefResolutionError) ||
+      err.candidates ||
+      !entry ||
+      !frame ||
+      frame.w <= 0 ||
+      frame.h <= 0
+    ) {
+      throw err;
+    }
+
+    // Make sure the screen still matches the snapshot before touching it
+    let current: Element["frame"] | null = null;
+    try {
+      const xml = await client.getSource();
+      const located = parseWDASource(xml, {
+        scope: { ref, entry },
+        maxDepth: 0,
+        refStore: state.refStore,
+      });
+      current = located.elements[0].frame;
+    } catch {
+      // Element is gone from the source
+    }
+    if (
+      !current ||
+      Math.abs(current.x - frame.x) > 1 ||
+      Math.abs(current.y - frame.y) > 1 ||
+      Math.abs(current.w - frame.w) > 1 ||
+      Math.abs(current.h - frame.h) > 1
+    ) {
+      throw new RefResolutionError(
+        `${err.message} The screen no longer matches the snapshot, so a coordinate fallback is not safe.`,
+        ref,
+        "snapshot"
+      );
+    }
+
+    if (options.force) {
+      return {
+        point: { x: frame.x + frame.w / 2, y: frame.y + frame.h / 2 },
+        frame,
+      };
+    }
+    const rect = await waitForActionable(
+      sourceActionabilityClient(client, ref, entry),
+      ref,
+      ref,
+      { timeout: options.timeout }
+    );
+    return {
+      point: { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 },
+      frame: { x: rect.x, y: rect.y, w: rect.width, h: rect.height },
+    };
+  }
+};
+
+const handleTap = async (
+  id: string,
+  ref: string,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    await ensureOnscreen(state.wdaClient, ref);
+    const target = await resolveTouchTarget(state.wdaClient, ref, options);
+    if ("point" in target) {
+      await state.wdaClient.tapAt(target.point.x, target.point.y);
+      return successResponse(id, {
+        action: "tap",
+        ref,
+        method: "coordinates",
+        point: target.point,
+        success: true,
+      });
+    }
+    await ensureActionable(state.wdaClient, target.elementId, ref, options);
+    await state.wdaClient.click(target.elementId);
+    return successResponse(id, { action: "tap", ref, success: true });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to tap ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+const handleType = async (
+  id: string,
+  ref: string,
+  text: string,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    await ensureOnscreen(state.wdaClient, ref);
+    const elementId = await resolveRef(
+      ref,
+      state.refStore,
+      state.wdaClient
+    );
+    await ensureActionable(state.wdaClient, elementId, ref, options);
+    await state.wdaClient.type(elementId, text);
+    return successResponse(id, { action: "type", ref, text, success: true });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to type into ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+const handleClear = async (
+  id: string,
+  ref: string,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    await ensureOnscreen(state.wdaClient, ref);
+    const elementId = await resolveRef(
+      ref,
+      state.refStore,
+      state.wdaClient
+    );
+    await ensureActionable(state.wdaClient, elementId, ref, options);
+    await state.wdaClient.clear(elementId);
+    return successResponse(id, { action: "clear", ref, success: true });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to clear ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+const handleSwipe = async (
+  id: string,
+  ref: string,
+  direction: "up" | "down" | "left" | "right",
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    await ensureOnscreen(state.wdaClient, ref);
+    const target = await resolveTouchTarget(state.wdaClient, ref, options);
+    if ("point" in target) {
+      // Swipe across the middle 80% of the element's frame
+      const { point, frame } = target;
+      const dx = frame.w * 0.4;
+      const dy = frame.h * 0.4;
+      const offsets = {
+        up: { x: 0, y: dy },
+        down: { x: 0, y: -dy },
+        left: { x: dx, y: 0 },
+        right: { x: -dx, y: 0 },
+      }[direction];
+      await state.wdaClient.swipeBetween(
+        { x: point.x + offsets.x, y: point.y + offsets.y },
+        { x: point.x - offsets.x, y: point.y - offsets.y }
+      );
+      return successResponse(id, {
+        action: "swipe",
+        ref,
+        direction,
+        method: "coordinates",
+        point,
+        success: true,
+      });
+    }
+    await ensureActionable(state.wdaClient, target.elementId, ref, options);
+    await state.wdaClient.swipe(target.elementId, direction);
+    return successResponse(id, { action: "swipe", ref, direction, success: true });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to swipe ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// Whether a point lies on screen
+const onScreen = (
+  point: { x: number; y: number },
+  screen: ScreenSize
+): boolean =>
+  point.x >= 0 &&
+  point.y >= 0 &&
+  point.x <= screen.width &&
+  point.y <= screen.height;
+
+const handleSwipeScreen = async (
+  id: string,
+  direction: "up" | "down" | "left" | "right",
+  options: {
+    distance?: number;
+    from?: { x: number; y: number };
+    velocity?: number;
+  }
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    const screen = await state.wdaClient.getScreenSize();
+    if (options.from && !onScreen(options.from, screen)) {
+      return errorResponse(
+        id,
+        `Start point ${options.from.x},${options.from.y} is outside the ${screen.width}x${screen.height} screen.`
+      );
+    }
+
+    const { from, to } = await state.wdaClient.swipeScreen(direction, options);
+    return successResponse(id, {
+      action: "swipe-screen",
+      direction,
+      from,
+      to,
+      screen,
+      success: true,
+    });
+  } catch (err) {
+    return errorResponse(
+      id,
+      `Failed to swipe screen: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+const handleTapAt = async (
+  id: string,
+  x: number,
+  y: number
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    const screen = await state.wdaClient.getScreenSize();
+    if (!onScreen({ x, y }, screen)) {
+      return errorResponse(
+        id,
+        `Point ${x},${y} is outside the ${screen.width}x${screen.height} screen.`
+      );
+    }
+
+    await state.wdaClient.tapAt(x, y);
+    return successResponse(id, {
+      action: "tap-at",
+      point: { x, y },
+      success: true,
+    });
+  } catch (err) {
+    return errorResponse(
+      id,
+      `Failed to tap at ${x},${y}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// Where a gesture should start: the center and frame of the target, in
+// screen points
+interface GestureTarget {
+  point: { x: number; y: number };
+  frame: Element["frame"];
+  coordinates: boolean; // Found through the coordinate fallback
+}
+
+const locateGestureTarget = async (
+  client: WDAClient,
+  ref: string,
+  options: ActionOptions
+): Promise<GestureTarget> => {
+  await ensureOnscreen(client, ref);
+  const target = await resolveTouchTarget(client, ref, options);
+  if ("point" in target) {
+    return { point: target.point, frame: target.frame, coordinates: true };
+  }
+
+  const rect = options.force
+    ? await client.getElementRect(target.elementId)
+    : await waitForActionable(client, target.elementId, ref, {
+        timeout: options.timeout,
+      });
+  if (!rect) {
+    throw new Error(`Could not get the frame of ${ref}`);
+  }
+  return {
+    point: { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 },
+    frame: { x: rect.x, y: rect.y, w: rect.width, h: rect.height },
+    coordinates: false,
+  };
+};
+
+// One finger of a W3C touch gesture
+const finger = (
+  id: string,
+  actions: PointerSequence["actions"]
+): PointerSequence => ({
+  type: "pointer",
+  id,
+  parameters: { pointerType: "touch" },
+  actions,
+});
+
+const handleLongPress = async (
+  id: string,
+  ref: string,
+  duration: number = 1000,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    const target = await locateGestureTarget(state.wdaClient, ref, options);
+    const { x, y } = target.point;
+    await state.wdaClient.performActions([
+      finger("finger1", [
+        { type: "pointerMove", x, y, duration: 0 },
+        { type: "pointerDown" },
+        { type: "pause", duration },
+        { type: "pointerUp" },
+      ]),
+    ]);
+    return successResponse(id, {
+      action: "long-press",
+      ref,
+      duration,
+      ...(target.coordinates && { method: "coordinates", point: target.point }),
+      success: true,
+    });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to long-press ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+const handleDoubleTap = async (
+  id: string,
+  ref: string,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    const target = await locateGestureTarget(state.wdaClient, ref, options);
+    const { x, y } = target.point;
+    await state.wdaClient.performActions([
+      finger("finger1", [
+        { type: "pointerMove", x, y, duration: 0 },
+        { type: "pointerDown" },
+        { type: "pause", duration: 50 },
+        { type: "pointerUp" },
+        { type: "pause", duration: 100 },
+        { type: "pointerDown" },
+        { type: "pause", duration: 50 },
+        { type: "pointerUp" },
+      ]),
+    ]);
+    return successResponse(id, {
+      action: "double-tap",
+      ref,
+      ...(target.coordinates && { method: "coordinates", point: target.point }),
+      success: true,
+    });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to double-tap ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// How long a drag holds before moving, so iOS starts a drag session (list
+// reordering, drag and drop) instead of scrolling
+const DRAG_HOLD = 600;
+
+const handleDrag = async (
+  id: string,
+  from: string,
+  to: string | { x: number; y: number },
+  duration: number = 500,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    const source = await locateGestureTarget(state.wdaClient, from, options);
+    // Only the dragged element has to be actionable; a drop target can
+    // legitimately be covered or moving
+    const destination =
+      typeof to === "string"
+        ? (await locateGestureTarget(state.wdaClient, to, { force: true }))
+            .point
+        : to;
+
+    await state.wdaClient.performActions([
+      finger("finger1", [
+        { type: "pointerMove", x: source.point.x, y: source.point.y, duration: 0 },
+        { type: "pointerDown" },
+        { type: "pause", duration: DRAG_HOLD },
+        { type: "pointerMove", x: destination.x, y: destination.y, duration },
+        { type: "pointerUp" },
+      ]),
+    ]);
+    return successResponse(id, {
+      action: "drag",
+      from,
+      to,
+      start: source.point,
+      end: destination,
+      success: true,
+    });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to drag ${from}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+const handlePinch = async (
+  id: string,
+  ref: string,
+  scale: number,
+  duration: number = 500,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    const target = await locateGestureTarget(state.wdaClient, ref, options);
+    const { x, y } = target.point;
+
+    // Fingers move apart (zoom in) or together (zoom out) horizontally,
+    // with the wider spread at 40% of the element's smaller side
+    const wide = Math.min(target.frame.w, target.frame.h) * 0.4;
+    const [start, end] =
+      scale >= 1 ? [wide / scale, wide] : [wide, wide * scale];
+
+    const move = (name: string, direction: 1 | -1) =>
+      finger(name, [
+        { type: "pointerMove", x: x + direction * start, y, duration: 0 },
+        { type: "pointerDown" },
+        { type: "pause", duration: 100 },
+        { type: "pointerMove", x: x + direction * end, y, duration },
+        { type: "pointerUp" },
+      ]);
+    await state.wdaClient.performActions([
+      move("finger1", 1),
+      move("finger2", -1),
+    ]);
+
+    return successResponse(id, {
+      action: "pinch",
+      ref,
+      scale,
+      ...(target.coordinates && { method: "coordinates", point: target.point }),
+      success: true,
+    });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to pinch ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+const handleGesture = async (
+  id: string,
+  actions: PointerSequence[]
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  const ids = actions.map((sequence) => sequence.id);
+  if (new Set(ids).size !== ids.length) {
+    return errorResponse(id, "Each pointer sequence needs a unique id.");
+  }
+
+  try {
+    await state.wdaClient.performActions(actions);
+    return successResponse(id, {
+      action: "gesture",
+      pointers: actions.length,
+      success: true,
+    });
+  } catch (err) {
+    return errorResponse(
+      id,
+      `Failed to perform gesture: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// Find a ref or selector in a freshly parsed snapshot. Selectors go through
+// WDA and are matched to the snapshot by frame; null when not in the source.
+const locateInSnapshot = async (
+  client: WDAClient,
+  parsed: Snapshot,
+  target: string
+): Promise<Element | null> => {
+  if (!isSelector(target)) {
+    return parsed.elements.find((element) => element.ref === target) ?? null;
+  }
+
+  let elementId: string;
+  try {
+    elementId = await resolveRef(target, state.refStore, client);
+  } catch (err) {
+    // Ambiguous selectors won't become unambiguous by scrolling
+    if (err instanceof RefResolutionError && err.candidates) throw err;
+    return null;
+  }
+  const rect = await client.getElementRect(elementId);
+  if (!rect) return null;
+  // Elements are in post-order, so the first match is the deepest
+  return (
+    parsed.elements.find((element) => rectMatchesFrame(rect, element.frame)) ??
+    null
+  );
+};
+
+// Whether WDA considers a ref hittable (not covered by other views). If that
+// can't be checked, being onscreen has to do.
+const isHittable = async (client: WDAClient, ref: string): Promise<boolean> => {
+  try {
+    const elementId = await resolveRef(ref, state.refStore, client);
+    const hittable = await client.getElementAttribute(elementId, "hittable");
+    return hittable === true || hittable === "true";
+  } catch {
+    return true;
+  }
+};
+
+// The element to scroll: the given container, the target's nearest
+// scrollable ancestor, or else the largest visible scroll view
+const findScrollContainer = (
+  parsed: Snapshot,
+  element: Element | null,
+  containerRef?: string
+): Element | null => {
+  const byRef = new Map(parsed.elements.map((e) => [e.ref, e]));
+
+  if (containerRef) {
+    const container = byRef.get(containerRef);
+    if (!container) {
+      throw new RefResolutionError(
+        `Container ${containerRef} not found. UI may have changed. Run 'snapshot' for updated refs.`,
+        containerRef,
+        "snapshot"
+      );
+    }
+    return container;
+  }
+
+  if (element) {
+    const parents = new Map<string, Element>();
+    for (const candidate of parsed.elements) {
+      for (const child of candidate.children) parents.set(child, candidate);
+    }
+    for (
+      let parent = parents.get(element.ref);
+      parent;
+      parent = parents.get(parent.ref)
+    ) {
+      if (isScrollable(parent.type)) return parent;
+    }
+  }
+
+  let largest: Element | null = null;
+  for (const candidate of parsed.elements) {
+    if (!isScrollable(candidate.type) || candidate.visibility === "offscreen") {
+      continue;
+    }
+    const area = candidate.frame.w * candidate.frame.h;
+    if (!largest || area > largest.frame.w * largest.frame.h) {
+      largest = candidate;
+    }
+  }
+  return largest;
+};
+
+// Drag the content of an area so it scrolls in `direction`. The finger moves
+// slowly and rests before lifting, so the scroll view doesn't fling past the
+// target.
+const scrollArea = async (
+  client: WDAClient,
+  area: Element["frame"],
+  direction: ScrollDirection
+) => {
+  const center = { x: area.x + area.w / 2, y: area.y + area.h / 2 };
+  const reach = {
+    up: { x: 0, y: -area.h * 0.3 },
+    down: { x: 0, y: area.h * 0.3 },
+    left: { x: -area.w * 0.3, y: 0 },
+    right: { x: area.w * 0.3, y: 0 },
+  }[direction];
+
+  // Scrolling content down means swiping up
+  await client.performActions([
+    finger("finger1", [
+      {
+        type: "pointerMove",
+        x: center.x + reach.x,
+        y: center.y + reach.y,
+        duration: 0,
+      },
+      { type: "pointerDown" },
+      { type: "pause", duration: 50 },
+      {
+        type: "pointerMove",
+        x: center.x - reach.x,
+        y: center.y - reach.y,
+        duration: 500,
+      },
+      { type: "pause", duration: 200 },
+      { type: "pointerUp" },
+    ]),
+  ]);
+};
+
+const OPPOSITE_DIRECTION = {
+  up: "down",
+  down: "up",
+  left: "right",
+  right: "left",
+} as const;
+
+const handleScrollTo = async (
+  id: string,
+  target: string,
+  containerRef?: string,
+  maxSwipes: number = 10
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
     );
-    await state.wdaClient.swipe(elementId, direction);
-    return successResponse(id, { action: "swipe", ref, direction, success: true });
+  }
+
+  if (isSelector(target)) {
+    try {
+      parseSelector(target);
+    } catch (err) {
+      if (err instanceof SelectorError) {
+        return errorResponse(
+          id,
+          `Invalid ref or selector: ${target}. ${err.message}.`
+        );
+      }
+      throw err;
+    }
+  } else if (!state.refStore.get(target)) {
+    return errorResponse(
+      id,
+      `Unknown ref: ${target}. Run 'snapshot' first to get element refs.`
+    );
+  }
+  if (containerRef && !state.refStore.get(containerRef)) {
+    return errorResponse(
+      id,
+      `Unknown ref: ${containerRef}. Run 'snapshot' first to get element refs.`
+    );
+  }
+
+  const client = state.wdaClient;
+  try {
+    let previousXml: string | null = null;
+    // Until the target shows up in the source, search down, then up
+    let searchDirection: ScrollDirection = "down";
+    let searchedBack = false;
+
+    for (let swipes = 0; ; swipes++) {
+      const xml = await client.getSource();
+      const parsed = parseWDASource(xml, {
+        refStore: state.refStore,
+        newGeneration: true,
+      });
+
+      // Every pass is a full snapshot, so its refs replace the store
+      state.lastSnapshot = parsed;
+      state.refStore.clear();
+      registerRefs(parsed, parsed.elements);
+
+      const element = await locateInSnapshot(client, parsed, target);
+      if (
+        element &&
+        element.visibility === "onscreen" &&
+        (await isHittable(client, element.ref))
+      ) {
+        return successResponse(id, {
+          action: "scroll-to",
+          target,
+          ref: element.ref,
+          frame: element.frame,
+          swipes,
+          success: true,
+        });
+      }
+
+      // An unchanged source after a swipe means the content can't move
+      // any further that way
+      const atEnd = xml === previousXml;
+      previousXml = xml;
+
+      const container = findScrollContainer(parsed, element, containerRef);
+      const screen = parsed.elements.find((e) => e.ref === parsed.tree)!.frame;
+      const area = container?.frame ?? screen;
+
+      let direction: ScrollDirection;
+      if (element) {
+        // Onscreen but covered: move it towards the middle of the area
+        const below =
+          element.frame.y + element.frame.h / 2 > area.y + area.h / 2;
+        direction = element.scrollHint ?? (below ? "down" : "up");
+        if (atEnd) {
+          return errorResponse(
+            id,
+            `Reached the end of the content scrolling ${direction}, but ${target} (${element.ref}) is still not fully onscreen and hittable.`
+          );
+        }
+      } else {
+        if (atEnd) {
+          if (searchedBack) {
+            return errorResponse(
+              id,
+              `${target} not found after scrolling through all the content${container ? ` of ${container.ref}` : ""}.`
+            );
+          }
+          searchedBack = true;
+          searchDirection = OPPOSITE_DIRECTION[searchDirection];
+        }
+        direction = searchDirection;
+      }
+
+      if (swipes >= maxSwipes) {
+        return errorResponse(
+          id,
+          `${target} is not onscreen after ${maxSwipes} swipes. Raise --max-swipes or scroll a different --container.`
+        );
+      }
+
+      // Swipe within the visible part of the container
+      const left = Math.max(area.x, screen.x);
+      const top = Math.max(area.y, screen.y);
+      const right = Math.min(area.x + area.w, screen.x + screen.w);
+      const bottom = Math.min(area.y + area.h, screen.y + screen.h);
+      await scrollArea(
+        client,
+        { x: left, y: top, w: right - left, h: bottom - top },
+        direction
+      );
+    }
   } catch (err) {
     if (err instanceof RefResolutionError) {
       return errorResponse(id, err.message);
     }
     return errorResponse(
       id,
-      `Failed to swipe ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+      `Failed to scroll to ${target}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// Safety cap on picker wheel steps in each direction. Wheels end when the
+// value stops changing (or wraps around), so this only guards against a
+// wheel that never reports the same value twice.
+const MAX_PICKER_STEPS = 1000;
+
+const TEXT_TYPES = new Set([
+  "XCUIElementTypeTextField",
+  "XCUIElementTypeSecureTextField",
+  "XCUIElementTypeSearchField",
+  "XCUIElementTypeTextView",
+]);
+
+const readValue = async (client: WDAClient, elementId: string) => {
+  const value = await client.getElementAttribute(elementId, "value");
+  return value === null || value === undefined ? null : String(value);
+};
+
+// Turn a picker wheel until it shows `value`. XCUITest adjusts a wheel to a
+// typed value when the value is in it; otherwise step through the wheel
+// forwards, then backwards, until it matches, stops moving or comes back
+// to a value it already showed (looping wheels).
+const setPickerWheel = async (
+  client: WDAClient,
+  elementId: string,
+  value: string
+): Promise<string | null> => {
+  const matches = (current: string | null) =>
+    current !== null && current.toLowerCase() === value.toLowerCase();
+
+  try {
+    await client.type(elementId, value);
+  } catch {
+    // Not one of the wheel's values, or not supported; step instead
+  }
+  let current = await readValue(client, elementId);
+  if (matches(current)) return current;
+
+  for (const order of ["next", "previous"] as const) {
+    const seen = new Set([current]);
+    for (let step = 0; step < MAX_PICKER_STEPS; step++) {
+      await client.selectPickerWheel(elementId, order);
+      const next = await readValue(client, elementId);
+      if (matches(next)) return next;
+      if (next === current) break; // End of the wheel
+      current = next;
+      if (seen.has(next)) break; // Wrapped around
+      seen.add(next);
+    }
+  }
+  return current;
+};
+
+// Parse a slider position: "70%" or a fraction from 0 to 1
+const parseSliderPosition = (value: string): number | null => {
+  const percent = /^\s*(\d+(?:\.\d+)?)\s*%\s*$/.exec(value);
+  const position = percent ? parseFloat(percent[1]) / 100 : Number(value);
+  return value.trim() !== "" && position >= 0 && position <= 1 ? position : null;
+};
+
+const SWITCH_VALUES: Record<string, "0" | "1"> = {
+  on: "1",
+  true: "1",
+  yes: "1",
+  "1": "1",
+  off: "0",
+  false: "0",
+  no: "0",
+  "0": "0",
+};
+
+const handleSetValue = async (
+  id: string,
+  ref: string,
+  value: string,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  const client = state.wdaClient;
+  try {
+    await ensureOnscreen(client, ref);
+    const elementId = await resolveRef(ref, state.refStore, client);
+    await ensureActionable(client, elementId, ref, options);
+    const type = String(await client.getElementAttribute(elementId, "type"));
+    const before = await readValue(client, elementId);
+
+    // Each branch sets the value and says whether the result is right
+    let after: string | null;
+    let verified: boolean;
+
+    if (type === "XCUIElementTypeSwitch") {
+      const wanted = SWITCH_VALUES[value.trim().toLowerCase()];
+      if (!wanted) {
+        return errorResponse(id, `Invalid switch value "${value}". Use on or off.`);
+      }
+      // Only tap when the switch isn't already in the wanted state
+      if (before !== wanted) await client.click(elementId);
+      after = await readValue(client, elementId);
+      verified = after === wanted;
+    } else if (type === "XCUIElementTypeSlider") {
+      const position = parseSliderPosition(value);
+      if (position === null) {
+        return errorResponse(
+          id,
+          `Invalid slider value "${value}". Use a percentage like 70% or a fraction from 0 to 1.`
+        );
+      }
+      // WDA adjusts sliders to a typed normalized position
+      await client.type(elementId, String(position));
+      after = await readValue(client, elementId);
+      const reported = after === null ? null : parseSliderPosition(after);
+      // Sliders with steps can't hit every position exactly
+      verified = reported !== null && Math.abs(reported - position) <= 0.05;
+    } else if (type === "XCUIElementTypePickerWheel") {
+      after = await setPickerWheel(client, elementId, value);
+      verified = after?.toLowerCase() === value.toLowerCase();
+    } else if (
+      type === "XCUIElementTypePicker" ||
+      type === "XCUIElementTypeDatePicker"
+    ) {
+      // One value per wheel, separated by |, e.g. "March|3|2025"
+      const wheels = await client.findChildElements(
+        elementId,
+        "class name",
+        "XCUIElementTypePickerWheel"
+      );
+      const parts = value.split("|").map((part) => part.trim());
+      if (parts.length !== wheels.length) {
+        return errorResponse(
+          id,
+          `${ref} has ${wheels.length} wheel(s). Give one value per wheel separated by |, e.g. "March|3|2025".`
+        );
+      }
+      const results: Array<string | null> = [];
+      for (let i = 0; i < wheels.length; i++) {
+        results.push(await setPickerWheel(client, wheels[i].ELEMENT, parts[i]));
+      }
+      after = results.join("|");
+      verified = results.every(
+        (result, i) => result?.toLowerCase() === parts[i].toLowerCase()
+      );
+    } else if (TEXT_TYPES.has(type)) {
+      await client.clear(elementId);
+      await client.type(elementId, value);
+      after = await readValue(client, elementId);
+      // Secure fields only ever report bullets
+      verified = type === "XCUIElementTypeSecureTextField" || after === value;
+    } else {
+      return errorResponse(
+        id,
+        `set-value doesn't support ${shortType(type)} elements. Use it on switches, sliders, pickers, date pickers and text fields.`
+      );
+    }
+
+    if (!verified) {
+      return errorResponse(
+        id,
+        `Could not set ${ref} to "${value}": its value is now ${after === null ? "empty" : `"${after}"`}.`
+      );
+    }
+    return successResponse(id, {
+      action: "set-value",
+      ref,
+      type: shortType(type),
+      value: after,
+      changed: after !== before,
+      success: true,
+    });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to set value of ${ref}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// Text inputs of a snapshot that a fill key names by label, placeholder or
+// identifier (case-insensitive)
+const matchFields = (snapshot: Snapshot, key: string): Element[] => {
+  const wanted = key.trim().toLowerCase();
+  return snapshot.elements.filter(
+    (element) =>
+      TEXT_TYPES.has(element.type) &&
+      [element.label, element.placeholderValue, element.identifier].some(
+        (name) => name?.trim().toLowerCase() === wanted
+      )
+  );
+};
+
+const describeField = (element: Element): string => {
+  const name =
+    element.label || element.placeholderValue || element.identifier || "";
+  return `${element.ref} (${shortType(element.type)}${name ? ` "${name}"` : ""})`;
+};
+
+const handleFill = async (
+  id: string,
+  data: Record<string, string>,
+  options: ActionOptions = {}
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  const keys = Object.keys(data);
+  if (keys.length === 0) {
+    return errorResponse(id, "Nothing to fill: --data has no fields.");
+  }
+
+  const client = state.wdaClient;
+  const results: Array<{
+    key: string;
+    ref: string;
+    type: string;
+    value: string | null;
+  }> = [];
+  try {
+    const xml = await client.getSource();
+    const parsed = parseWDASource(xml, {
+      refStore: state.refStore,
+      newGeneration: true,
+    });
+
+    // Match every key before typing anything, so a bad key changes nothing
+    const fields: Element[] = [];
+    for (const key of keys) {
+      const matches = matchFields(parsed, key);
+      if (matches.length === 1) {
+        const other = fields.findIndex((field) => field.ref === matches[0].ref);
+        if (other !== -1) {
+          return errorResponse(
+            id,
+            `"${keys[other]}" and "${key}" both name ${describeField(matches[0])}. Give each field once.`
+          );
+        }
+        fields.push(matches[0]);
+        continue;
+      }
+      if (matches.length > 1) {
+        return errorResponse(
+          id,
+          `"${key}" matches ${matches.length} fields: ${matches.map(describeField).join(", ")}. Use a more specific label or the field's identifier.`
+        );
+      }
+      const available = parsed.elements
+        .filter((element) => TEXT_TYPES.has(element.type))
+        .map(describeField);
+      return errorResponse(
+        id,
+        `"${key}" matches no field.${available.length > 0 ? ` Fields on screen: ${available.join(", ")}.` : " There are no text fields on screen."}`
+      );
+    }
+
+    // Register only the fields; other refs in the store stay as they were
+    registerRefs(parsed, fields);
+
+    // Resolve every field up front: hiding the keyboard can move them
+    const elementIds: string[] = [];
+    for (const field of fields) {
+      await ensureOnscreen(client, field.ref);
+      elementIds.push(await resolveRef(field.ref, state.refStore, client));
+    }
+
+    for (let i = 0; i < fields.length; i++) {
+      const key = keys[i];
+      const field = fields[i];
+      const ref = field.ref;
+      const elementId = elementIds[i];
+
+      // A field covered by the keyboard can't be tapped to move focus
+      const hittable = await client.getElementAttribute(elementId, "hittable");
+      if (hittable === false || hittable === "false") {
+        try {
+          await client.dismissKeyboard(["Done", "Hide keyboard"]);
+        } catch {
+          // The type below fails with WDA's reason if it's still covered
+        }
+      }
+
+      try {
+        await ensureActionable(client, elementId, ref, options);
+        await client.clear(elementId);
+        await client.type(elementId, data[key]);
+      } catch (err) {
+        const filled = results.map((result) => `"${result.key}"`).join(", ");
+        return errorResponse(
+          id,
+          `Failed to fill "${key}" (${ref}): ${err instanceof Error ? err.message : "Unknown error"}${filled ? `. Already filled: ${filled}.` : ""}`
+        );
+      }
+
+      // Secure fields only ever report bullets, and empty fields report
+      // null or their placeholder
+      const value = await readValue(client, elementId);
+      const emptied =
+        data[key] === "" &&
+        (value === null || value === field.placeholderValue);
+      if (
+        field.type !== "XCUIElementTypeSecureTextField" &&
+        value !== data[key] &&
+        !emptied
+      ) {
+        return errorResponse(
+          id,
+          `Filled "${key}" (${ref}) but its value is ${value === null ? "empty" : `"${value}"`}. The field may format or limit its input.`
+        );
+      }
+      results.push({
+        key,
+        ref,
+        type: shortType(field.type),
+        value: field.type === "XCUIElementTypeSecureTextField" ? null : value,
+      });
+    }
+
+    return successResponse(id, {
+      action: "fill",
+      fields: results,
+      success: true,
+    });
+  } catch (err) {
+    if (
+      err instanceof RefResolutionError ||
+      err instanceof ActionabilityError
+    ) {
+      return errorResponse(id, err.message);
+    }
+    return errorResponse(
+      id,
+      `Failed to fill form: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// WDA names of the hardware buttons
+const WDA_BUTTONS = {
+  home: "home",
+  "volume-up": "volumeUp",
+  "volume-down": "volumeDown",
+} as const;
+
+const handlePress = async (
+  id: string,
+  button: "home" | "volume-up" | "volume-down" | "lock"
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    if (button === "lock") {
+      await state.wdaClient.lock();
+    } else {
+      await state.wdaClient.pressButton(WDA_BUTTONS[button]);
+    }
+    return successResponse(id, { action: "press", button, success: true });
+  } catch (err) {
+    return errorResponse(
+      id,
+      `Failed to press ${button}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+};
+
+// Characters WDA types for each named key
+const KEY_CHARACTERS = {
+  return: "\n",
+  delete: "\b",
+  tab: "\t",
+  escape: "\u001b",
+} as const;
+
+const handleKey = async (
+  id: string,
+  key: keyof typeof KEY_CHARACTERS
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    await state.wdaClient.sendKeys([KEY_CHARACTERS[key]]);
+    return successResponse(id, { action: "key", key, success: true });
+  } catch (err) {
+    return errorResponse(
+      id,
+      `Failed to press ${key}: ${err instanceof Error ? err.message : "Unknown error"}. Keys go to the focused element; tap a text field first.`
+    );
+  }
+};
+
+// Current keyboard state from a fresh source
+const readKeyboard = async (client: WDAClient): Promise<KeyboardState> => {
+  const xml = await client.getSource();
+  return parseWDASource(xml, { maxDepth: 0 }).keyboard ?? { visible: false };
+};
+
+const handleKeyboard = async (
+  id: string,
+  operation: "hide" | "status"
+): Promise<Response> => {
+  if (!state.wdaClient) {
+    return errorResponse(
+      id,
+      "WDA not running. Run 'agent-ios start-session' first."
+    );
+  }
+
+  try {
+    const keyboard = await readKeyboard(state.wdaClient);
+    if (operation === "status") {
+      return successResponse(id, { action: "keyboard", ...keyboard });
+    }
+
+    if (!keyboard.visible) {
+      return successResponse(id, {
+        action: "keyboard",
+        operation,
+        wasVisible: false,
+        success: true,
+      });
+    }
+
+    // iPhone keyboards have no dismiss key, so WDA taps one of these
+    // instead when the field offers it
+    try {
+      await state.wdaClient.dismissKeyboard(["Done", "Hide keyboard"]);
+    } catch {
+      // Checked below
+    }
+    if ((await readKeyboard(state.wdaClient)).visible) {
+      return errorResponse(
+        id,
+        "Keyboard is still visible: this field has no dismiss key. Tap outside the text field, or use 'key return' if submitting is fine."
+      );
+    }
+    return successResponse(id, {
+      action: "keyboard",
+      operation,
+      wasVisible: true,
+      success: true,
+    });
+  } catch (err) {
+    return errorResponse(
+      id,
+      `Failed to ${operation === "hide" ? "hide keyboard" : "read keyboard status"}: ${err instanceof Error ? err.message : "Unknown error"}`
     );
   }
 };
@@ -489,9 +2711,18 @@ const handleWait = async (
     );
   }
 
-  // Get ref info from store
-  const entry = state.refStore.get(ref);
-  if (!entry) {
+  if (isSelector(ref)) {
+    // Reject malformed selectors up front instead of polling until timeout
+    try {
+      parseSelector(ref);
+    } catch (err) {
+      if (err instanceof SelectorError) {
+        return errorResponse(id, `Invalid selector: ${ref}. ${err.message}.`);
+      }
+      throw err;
+    }
+  } else if (!state.refStore.get(ref)) {
+    // Get ref info from store
     return errorResponse(
       id,
       `Unknown ref: ${ref}. Run 'snapshot' first to get element refs.`
@@ -506,7 +2737,7 @@ const handleWait = async (
       const elementId = await resolveRef(
         ref,
         state.refStore,
-        state.wdaClient.findElement.bind(state.wdaClient)
+        state.wdaClient
       );
       if (elementId) {
         return successResponse(id, {
@@ -516,7 +2747,11 @@ const handleWait = async (
           elapsed: Date.now() - startTime,
         });
       }
-    } catch {
+    } catch (err) {
+      // Several matches means the element is there but the ref is ambiguous
+      if (err instanceof RefResolutionError && err.candidates) {
+        return errorResponse(id, err.message);
+      }
       // Element not found yet, keep polling
     }
     await new Promise((resolve) => setTimeout(resolve, pollInterval));
@@ -586,26 +2821,37 @@ const handleAlertButton = async (
   }
 
   try {
-    const alertText = await state.wdaClient.getAlertText();
-    if (!alertText) {
+    const alert = await readAlert(state.wdaClient);
+    if (!alert) {
       return errorResponse(id, "No alert is currently displayed.");
     }
-    // Find and tap the button by label
-    const element = await state.wdaClient.findElement("accessibility id", button);
-    if (!element) {
-      // Try by label
-      const byLabel = await state.wdaClient.findElement(
-        "predicate string",
-        `label == '${button}'`
-      );
-      if (!byLabel) {
-        return errorResponse(id, `Alert button "${button}" not found.`);
-      }
-      await state.wdaClient.click(byLabel.ELEMENT);
-    } else {
-      await state.wdaClient.click(element.ELEMENT);
+
+    // Exact label first, then a case-insensitive match if it's unique
+    const matches = alert.buttons.filter(
+      (candidate) => candidate.toLowerCase() === button.toLowerCase()
+    );
+    const label = alert.buttons.includes(button)
+      ? button
+      : matches.length === 1
+        ? matches[0]
+        : undefined;
+    if (!label) {
+      return {
+        id,
+        success: false,
+        error: `Alert has no button "${button}".`,
+        alert,
+        suggestion: alertSuggestion(alert),
+      };
     }
-    return successResponse(id, { action: "alert-button", button, alertText, success: true });
+
+    await state.wdaClient.acceptAlert(label);
+    return successResponse(id, {
+      action: "alert-button",
+      button: label,
+      alertText: alert.text,
+      success: true,
+    });
   } catch (err) {
     return errorResponse(
       id,
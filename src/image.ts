@@ -0,0 +1,65 @@
+// Pixel operations on decoded RGBA images.
+
+import type { PNGImage } from "./png.js";
+import type { Region } from "./visual-diff.js";
+
+// Cut a region (in pixels) out of an image, clipped to its bounds
+export function cropImage(image: PNGImage, region: Region): PNGImage {
+  const left = Math.max(0, Math.round(region.x));
+  const top = Math.max(0, Math.round(region.y));
+  const right = Math.min(image.width, Math.round(region.x + region.w));
+  const bottom = Math.min(image.height, Math.round(region.y + region.h));
+  if (right <= left || bottom <= top) {
+    throw new Error("Crop region lies outside the image");
+  }
+
+  const width = right - left;
+  const height = bottom - top;
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((top + y) * image.width + left) * 4;
+    image.data.copy(data, y * width * 4, start, start + width * 4);
+  }
+  return { width, height, data };
+}
+
+// Shrink an image by a factor in (0, 1], averaging the source pixels that
+// fall into each target pixel
+export function scaleImage(image: PNGImage, factor: number): PNGImage {
+  if (factor >= 1) return image;
+
+  const width = Math.max(1, Math.round(image.width * factor));
+  const height = Math.max(1, Math.round(image.height * factor));
+  const data = Buffer.alloc(width * height * 4);
+  const stepX = image.width / width;
+  const stepY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * stepY);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * stepY));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * stepX);
+      const right = Math.max(left + 1, Math.floor((x + 1) * stepX));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          r += image.data[i];
+          g += image.data[i + 1];
+          b += image.data[i + 2];
+          a += image.data[i + 3];
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      const target = (y * width + x) * 4;
+      data[target] = Math.round(r / count);
+      data[target + 1] = Math.round(g / count);
+      data[target + 2] = Math.round(b / count);
+      data[target + 3] = Math.round(a / count);
+    }
+  }
+  return { width, height, data };
+}
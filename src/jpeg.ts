@@ -0,0 +1,329 @@
+// Baseline JPEG encoder (JFIF, YCbCr with 4:2:0 chroma subsampling and the
+// standard Huffman tables). Used to shrink screenshots before they go to a
+// vision model; there is no decoder, since nothing reads JPEGs back.
+
+import type { PNGImage } from "./png.js";
+
+// Order in which the coefficients of an 8x8 block are written
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+];
+
+// Quantization tables from the JPEG spec (Annex K), in natural order
+const LUMINANCE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16,
+  24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109,
+  103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120,
+  101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMINANCE_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56,
+  99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99,
+];
+
+// Standard Huffman tables (Annex K): code counts per length 1-16, then the
+// symbols in code order
+interface HuffmanSpec {
+  counts: number[];
+  symbols: number[];
+}
+
+const DC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const DC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const AC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06,
+    0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08,
+    0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
+    0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+    0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
+    0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+    0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
+    0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+const AC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41,
+    0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91,
+    0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1,
+    0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44,
+    0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58,
+    0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74,
+    0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a,
+    0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4,
+    0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+    0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+// Symbol -> [code, length]
+type HuffmanTable = Map<number, [number, number]>;
+
+const buildTable = (spec: HuffmanSpec): HuffmanTable => {
+  const table: HuffmanTable = new Map();
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      table.set(spec.symbols[k++], [code++, length]);
+    }
+    code <<= 1;
+  }
+  return table;
+};
+
+const DC_TABLES = [buildTable(DC_LUMINANCE), buildTable(DC_CHROMINANCE)];
+const AC_TABLES = [buildTable(AC_LUMINANCE), buildTable(AC_CHROMINANCE)];
+
+// cos((2x + 1) * u * pi / 16), scaled by the DCT normalization factor
+const DCT_COSINES = (() => {
+  const table = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+    for (let x = 0; x < 8; x++) {
+      table[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return table;
+})();
+
+// Quantization table scaled for a quality of 1-100 (IJG formula)
+const scaleQuant = (table: number[], quality: number): number[] => {
+  const factor = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return table.map((q) =>
+    Math.min(255, Math.max(1, Math.floor((q * factor + 50) / 100)))
+  );
+};
+
+// Bit writer with JPEG byte stuffing
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(code: number, length: number) {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      this.buffer = (this.buffer << 1) | ((code >> bit) & 1);
+      this.count++;
+      if (this.count === 8) {
+        this.bytes.push(this.buffer);
+        if (this.buffer === 0xff) this.bytes.push(0);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  // Pad the last byte with 1 bits
+  finish(): Buffer {
+    if (this.count > 0) this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+    return Buffer.from(this.bytes);
+  }
+}
+
+// Number of bits needed for a coefficient, and its JPEG bit pattern
+const category = (value: number): [number, number] => {
+  const magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude >> bits) bits++;
+  return [bits, value < 0 ? value + (1 << bits) - 1 : value];
+};
+
+const segment = (marker: number, data: number[]): Buffer => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, Buffer.from(data)]);
+};
+
+// Encode an RGBA image as JPEG. Transparent pixels are blended onto white.
+export function encodeJPEG(image: PNGImage, quality: number = 80): Buffer {
+  const { width, height, data } = image;
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const quants = [
+    scaleQuant(LUMINANCE_QUANT, q),
+    scaleQuant(CHROMINANCE_QUANT, q),
+  ];
+
+  // Convert to YCbCr planes once
+  const planeY = new Float64Array(width * height);
+  const planeCb = new Float64Array(width * height);
+  const planeCr = new Float64Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const r = 255 + (data[i * 4] - 255) * alpha;
+    const g = 255 + (data[i * 4 + 1] - 255) * alpha;
+    const b = 255 + (data[i * 4 + 2] - 255) * alpha;
+    planeY[i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+    planeCb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    planeCr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  const writer = new BitWriter();
+  const previousDC = [0, 0, 0];
+  const block = new Float64Array(64);
+  const temp = new Float64Array(64);
+
+  // DCT, quantize and entropy-code the current block for a component
+  const encodeBlock = (component: number) => {
+    const table = component === 0 ? 0 : 1;
+    const quant = quants[table];
+
+    // Separable 2D DCT: rows, then columns
+    for (let y = 0; y < 8; y++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let x = 0; x < 8; x++) sum += DCT_COSINES[u * 8 + x] * block[y * 8 + x];
+        temp[y * 8 + u] = sum;
+      }
+    }
+    const coefficients = new Array<number>(64);
+    for (let u = 0; u < 8; u++) {
+      for (let v = 0; v < 8; v++) {
+        let sum = 0;
+        for (let y = 0; y < 8; y++) sum += DCT_COSINES[v * 8 + y] * temp[y * 8 + u];
+        const index = v * 8 + u;
+        coefficients[index] = Math.round(sum / quant[index]);
+      }
+    }
+
+    // DC: difference from the previous block of this component
+    const dc = coefficients[0];
+    const [dcBits, dcValue] = category(dc - previousDC[component]);
+    previousDC[component] = dc;
+    const [dcCode, dcLength] = DC_TABLES[table].get(dcBits)!;
+    writer.write(dcCode, dcLength);
+    if (dcBits > 0) writer.write(dcValue, dcBits);
+
+    // AC: run lengths of zeros in zigzag order
+    const ac = AC_TABLES[table];
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = coefficients[ZIGZAG[k]];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        const [zrl, zrlLength] = ac.get(0xf0)!;
+        writer.write(zrl, zrlLength);
+        run -= 16;
+      }
+      const [bits, pattern] = category(value);
+      const [code, length] = ac.get((run << 4) | bits)!;
+      writer.write(code, length);
+      writer.write(pattern, bits);
+      run = 0;
+    }
+    if (run > 0) {
+      const [eob, eobLength] = ac.get(0x00)!;
+      writer.write(eob, eobLength);
+    }
+  };
+
+  // Sample coordinates are clamped, repeating the edge pixels into the
+  // padding of partial blocks
+  const at = (x: number, y: number): number =>
+    Math.min(y, height - 1) * width + Math.min(x, width - 1);
+
+  // 16x16 MCUs: four luma blocks, then one averaged Cb and one Cr block
+  for (let mcuY = 0; mcuY < height; mcuY += 16) {
+    for (let mcuX = 0; mcuX < width; mcuX += 16) {
+      for (const [offsetX, offsetY] of [
+        [0, 0],
+        [8, 0],
+        [0, 8],
+        [8, 8],
+      ]) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            block[y * 8 + x] = planeY[at(mcuX + offsetX + x, mcuY + offsetY + y)];
+          }
+        }
+        encodeBlock(0);
+      }
+
+      for (const [component, plane] of [
+        [1, planeCb],
+        [2, planeCr],
+      ] as const) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            const sx = mcuX + x * 2;
+            const sy = mcuY + y * 2;
+            block[y * 8 + x] =
+              (plane[at(sx, sy)] +
+                plane[at(sx + 1, sy)] +
+                plane[at(sx, sy + 1)] +
+                plane[at(sx + 1, sy + 1)]) /
+              4;
+          }
+        }
+        encodeBlock(component);
+      }
+    }
+  }
+
+  const huffmanSegment = (tableClass: number, id: number, spec: HuffmanSpec) => [
+    (tableClass << 4) | id,
+    ...spec.counts,
+    ...spec.symbols,
+  ];
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]), // SOI
+    // JFIF header, version 1.1, no density or thumbnail
+    segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    segment(0xdb, [
+      0,
+      ...ZIGZAG.map((index) => quants[0][index]),
+      1,
+      ...ZIGZAG.map((index) => quants[1][index]),
+    ]),
+    // Start of frame: 8-bit, 3 components, luma sampled 2x2
+    segment(0xc0, [
+      8,
+      height >> 8,
+      height & 0xff,
+      width >> 8,
+      width & 0xff,
+      3,
+      1, 0x22, 0,
+      2, 0x11, 1,
+      3, 0x11, 1,
+    ]),
+    segment(0xc4, [
+      ...huffmanSegment(0, 0, DC_LUMINANCE),
+      ...huffmanSegment(1, 0, AC_LUMINANCE),
+      ...huffmanSegment(0, 1, DC_CHROMINANCE),
+      ...huffmanSegment(1, 1, AC_CHROMINANCE),
+    ]),
+    // Start of scan: each component with its DC/AC table pair
+    segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]),
+    writer.finish(),
+    Buffer.from([0xff, 0xd9]), // EOI
+  ]);
+}
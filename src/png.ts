@@ -0,0 +1,382 @@
+// Minimal PNG codec built on node's zlib.
+//
+// Decodes every standard PNG (grayscale, RGB, palette, with or without
+// alpha, 1-16 bit depths, Adam7 interlacing) into 8-bit RGBA, and encodes
+// 8-bit RGBA images. Ancillary chunks other than tRNS are ignored.
+
+import * as zlib from "zlib";
+
+// Decoded image: 4 bytes (RGBA) per pixel, rows top to bottom
+export interface PNGImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+// Error class for malformed or unsupported PNG data
+export class PNGError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PNGError";
+  }
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Channels per pixel for each color type
+const CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette index
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+// Bit depths allowed for each color type
+const BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16],
+};
+
+// Adam7 passes: start column/row and column/row step
+const ADAM7 = [
+  { x: 0, y: 0, dx: 8, dy: 8 },
+  { x: 4, y: 0, dx: 8, dy: 8 },
+  { x: 0, y: 4, dx: 4, dy: 8 },
+  { x: 2, y: 0, dx: 4, dy: 4 },
+  { x: 0, y: 2, dx: 2, dy: 4 },
+  { x: 1, y: 0, dx: 2, dy: 2 },
+  { x: 0, y: 1, dx: 1, dy: 2 },
+];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (buffer: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+// Undo the per-row filters of one (sub)image in place, returning the raw
+// scanlines without their filter bytes
+const unfilter = (
+  data: Buffer,
+  offset: number,
+  rowBytes: number,
+  rows: number,
+  bpp: number
+): Buffer => {
+  const out = Buffer.alloc(rowBytes * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset + y * (rowBytes + 1)];
+    const src = offset + y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const prior = row - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[src + x];
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[prior + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prior + x - bpp] : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new PNGError(`Invalid filter type ${filter}`);
+      }
+      out[row + x] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+// Decode a PNG file into 8-bit RGBA
+export function decodePNG(buffer: Buffer): PNGImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new PNGError("Not a PNG file");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let interlaced = false;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+  let ended = false;
+
+  let pos = 8;
+  while (pos < buffer.length && !ended) {
+    if (pos + 12 > buffer.length) throw new PNGError("Truncated chunk");
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString("latin1", pos + 4, pos + 8);
+    const end = pos + 8 + length;
+    if (end + 4 > buffer.length) throw new PNGError(`Truncated ${type} chunk`);
+    const data = buffer.subarray(pos + 8, end);
+    if (crc32(buffer.subarray(pos + 4, end)) !== buffer.readUInt32BE(end)) {
+      throw new PNGError(`CRC mismatch in ${type} chunk`);
+    }
+
+    switch (type) {
+      case "IHDR":
+        width = data.readUInt32BE(0);
+        height = data.readUInt32BE(4);
+        bitDepth = data[8];
+        colorType = data[9];
+        interlaced = data[12] === 1;
+        if (!BIT_DEPTHS[colorType]?.includes(bitDepth)) {
+          throw new PNGError(
+            `Unsupported color type ${colorType} with bit depth ${bitDepth}`
+          );
+        }
+        if (width === 0 || height === 0) throw new PNGError("Empty image");
+        break;
+      case "PLTE":
+        palette = data;
+        break;
+      case "tRNS":
+        transparency = data;
+        break;
+      case "IDAT":
+        idat.push(data);
+        break;
+      case "IEND":
+        ended = true;
+        break;
+    }
+    pos = end + 4;
+  }
+
+  if (colorType === -1) throw new PNGError("Missing IHDR chunk");
+  if (idat.length === 0) throw new PNGError("Missing IDAT chunk");
+  if (colorType === 3 && !palette) throw new PNGError("Missing PLTE chunk");
+
+  let inflated: Buffer;
+  try {
+    inflated = zlib.inflateSync(Buffer.concat(idat));
+  } catch (err) {
+    throw new PNGError(
+      `Corrupt image data: ${err instanceof Error ? err.message : err}`
+    );
+  }
+
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const out = Buffer.alloc(width * height * 4);
+
+  // Sample n of a scanline, scaled to 8 bits
+  const sample = (row: Buffer, start: number, n: number): number => {
+    if (bitDepth === 8) return row[start + n];
+    if (bitDepth === 16) return row[start + n * 2];
+    const bit = n * bitDepth;
+    const value = (row[start + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+    return colorType === 3 ? value : Math.round((value * 255) / ((1 << bitDepth) - 1));
+  };
+
+  // Full-precision sample, for comparing against the tRNS key color
+  const rawSample = (row: Buffer, start: number, n: number): number => {
+    if (bitDepth === 16) return row.readUInt16BE(start + n * 2);
+    if (bitDepth === 8) return row[start + n];
+    const bit = n * bitDepth;
+    return (row[start + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+
+  const writePixel = (rows: Buffer, rowStart: number, col: number, target: number) => {
+    const first = col * channels;
+    switch (colorType) {
+      case 0: {
+        const gray = sample(rows, rowStart, first);
+        out[target] = out[target + 1] = out[target + 2] = gray;
+        out[target + 3] =
+          transparency && rawSample(rows, rowStart, first) === transparency.readUInt16BE(0)
+            ? 0
+            : 255;
+        break;
+      }
+      case 2: {
+        out[target] = sample(rows, rowStart, first);
+        out[target + 1] = sample(rows, rowStart, first + 1);
+        out[target + 2] = sample(rows, rowStart, first + 2);
+        out[target + 3] =
+          transparency &&
+          rawSample(rows, rowStart, first) === transparency.readUInt16BE(0) &&
+          rawSample(rows, rowStart, first + 1) === transparency.readUInt16BE(2) &&
+          rawSample(rows, rowStart, first + 2) === transparency.readUInt16BE(4)
+            ? 0
+            : 255;
+        break;
+      }
+      case 3: {
+        const index = sample(rows, rowStart, first);
+        if (index * 3 + 2 >= palette!.length) {
+          throw new PNGError(`Palette index ${index} out of range`);
+        }
+        out[target] = palette![index * 3];
+        out[target + 1] = palette![index * 3 + 1];
+        out[target + 2] = palette![index * 3 + 2];
+        out[target + 3] =
+          transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4: {
+        const gray = sample(rows, rowStart, first);
+        out[target] = out[target + 1] = out[target + 2] = gray;
+        out[target + 3] = sample(rows, rowStart, first + 1);
+        break;
+      }
+      case 6:
+        out[target] = sample(rows, rowStart, first);
+        out[target + 1] = sample(rows, rowStart, first + 1);
+        out[target + 2] = sample(rows, rowStart, first + 2);
+        out[target + 3] = sample(rows, rowStart, first + 3);
+        break;
+    }
+  };
+
+  const passes = interlaced ? ADAM7 : [{ x: 0, y: 0, dx: 1, dy: 1 }];
+  let offset = 0;
+  for (const pass of passes) {
+    const passWidth = Math.ceil((width - pass.x) / pass.dx);
+    const passHeight = Math.ceil((height - pass.y) / pass.dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    if (offset + (rowBytes + 1) * passHeight > inflated.length) {
+      throw new PNGError("Image data is too short");
+    }
+    const rows = unfilter(inflated, offset, rowBytes, passHeight, bpp);
+    offset += (rowBytes + 1) * passHeight;
+
+    for (let y = 0; y < passHeight; y++) {
+      const targetRow = (pass.y + y * pass.dy) * width;
+      for (let x = 0; x < passWidth; x++) {
+        writePixel(rows, y * rowBytes, x, (targetRow + pass.x + x * pass.dx) * 4);
+      }
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+};
+
+// Encode an 8-bit RGBA image as PNG. Each row gets the filter with the
+// smallest sum of absolute differences, the usual heuristic for photos and
+// screenshots alike.
+export function encodePNG(image: PNGImage): Buffer {
+  const { width, height, data } = image;
+  if (data.length !== width * height * 4) {
+    throw new PNGError(
+      `Expected ${width * height * 4} bytes of RGBA data, got ${data.length}`
+    );
+  }
+
+  const rowBytes = width * 4;
+  const filtered = Buffer.alloc((rowBytes + 1) * height);
+  const candidate = Buffer.alloc(rowBytes);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    const prior = row - rowBytes;
+    let bestSum = Infinity;
+
+    for (let filter = 0; filter <= 4; filter++) {
+      let sum = 0;
+      for (let x = 0; x < rowBytes; x++) {
+        const raw = data[row + x];
+        const left = x >= 4 ? data[row + x - 4] : 0;
+        const up = y > 0 ? data[prior + x] : 0;
+        const upLeft = y > 0 && x >= 4 ? data[prior + x - 4] : 0;
+        let value: number;
+        switch (filter) {
+          case 0:
+            value = raw;
+            break;
+          case 1:
+            value = raw - left;
+            break;
+          case 2:
+            value = raw - up;
+            break;
+          case 3:
+            value = raw - ((left + up) >> 1);
+            break;
+          default:
+            value = raw - paeth(left, up, upLeft);
+        }
+        value &= 0xff;
+        candidate[x] = value;
+        sum += value < 128 ? value : 256 - value;
+        if (sum >= bestSum) break;
+      }
+      if (sum < bestSum) {
+        bestSum = sum;
+        const start = y * (rowBytes + 1);
+        filtered[start] = filter;
+        candidate.copy(filtered, start + 1);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  header[10] = 0; // deflate
+  header[11] = 0; // adaptive filtering
+  header[12] = 0; // no interlace
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", zlib.deflateSync(filtered)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
@@ -15,11 +15,36 @@ export const getPidPath = (session: string = getSessionName()): string => {
   return `/tmp/agent-ios-${session}.pid`;
 };
 
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rule for answering alerts before element actions. The first rule whose
+// pattern matches the alert text (case-insensitive) fires; a rule naming a
+// button only fires when the alert has that button.
+export const AlertRuleSchema = z
+  .object({
+    textMatches: z.string().refine(isValidRegex, "Invalid regular expression"),
+    button: z.string().optional(), // Button label to tap
+    action: z.enum(["accept", "dismiss"]).optional(),
+  })
+  .refine((rule) => (rule.button === undefined) !== (rule.action === undefined), {
+    message: "Give either a button or an action",
+  });
+
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+
 // Command schemas
 const StartSessionCommand = z.object({
   id: z.string(),
   action: z.literal("start-session"),
   sim: z.string().optional(),
+  alertRules: z.array(AlertRuleSchema).optional(),
 });
 
 const StopSessionCommand = z.object({
@@ -40,18 +65,61 @@ const ListSimsCommand = z.object({
 const SnapshotCommand = z.object({
   id: z.string(),
   action: z.literal("snapshot"),
+  ref: z.string().optional(), // only the subtree rooted at this element
+  depth: z.number().int().nonnegative().optional(), // max depth below the root
+  format: z.enum(["json", "tree"]).optional(), // default json
+  interactive: z.boolean().optional(), // only actionable/informative elements
+  diff: z.boolean().optional(), // only changes since the previous snapshot
+  maxTokens: z.number().int().positive().optional(), // condense to fit budget
+});
+
+const FindCommand = z.object({
+  id: z.string(),
+  action: z.literal("find"),
+  type: z.string().optional(), // e.g. "Button" or "XCUIElementTypeButton"
+  label: z.string().optional(),
+  identifier: z.string().optional(),
+  value: z.string().optional(),
+  contains: z.string().optional(), // substring of label/identifier/value
+  matches: z.string().optional(), // regex against label/identifier/value
 });
 
 const ScreenshotCommand = z.object({
   id: z.string(),
   action: z.literal("screenshot"),
   out: z.string().optional(), // Output file path
+  ref: z.string().optional(), // Crop to this element
+  format: z.enum(["png", "jpeg"]).optional(),
+  quality: z.number().int().min(1).max(100).optional(), // JPEG quality
+  scale: z.number().gt(0).max(1).optional(), // Shrink factor
+  annotate: z.boolean().optional(), // Draw snapshot refs onto the image
+  interactive: z.boolean().optional(), // Only annotate actionable elements
+  compare: z.string().optional(), // Baseline PNG to compare against
+  threshold: z.number().min(0).max(1).optional(), // Per-pixel color tolerance
+  maxMismatch: z.number().min(0).max(100).optional(), // Allowed % of pixels
+  ignore: z.array(z.string()).optional(), // Refs, "x,y,w,h" or "status-bar"
+  diffOut: z.string().optional(), // Diff image path
+  updateBaseline: z.boolean().optional(),
 });
 
+// Options of commands that run the session's alert rules first
+const alertOptions = {
+  autoAlerts: z.boolean().optional(), // false skips the session's alert rules
+};
+
+// Options of commands that act on an element, which first wait until it's
+// enabled, in the window, hittable and not moving
+const actionOptions = {
+  force: z.boolean().optional(), // skip the actionability checks
+  timeout: z.number().int().positive().optional(), // milliseconds, default 5000
+  ...alertOptions,
+};
+
 const TapCommand = z.object({
   id: z.string(),
   action: z.literal("tap"),
   ref: z.string(),
+  ...actionOptions,
 });
 
 const TypeCommand = z.object({
@@ -59,12 +127,14 @@ const TypeCommand = z.object({
   action: z.literal("type"),
   ref: z.string(),
   text: z.string(),
+  ...actionOptions,
 });
 
 const ClearCommand = z.object({
   id: z.string(),
   action: z.literal("clear"),
   ref: z.string(),
+  ...actionOptions,
 });
 
 const SwipeCommand = z.object({
@@ -72,13 +142,154 @@ const SwipeCommand = z.object({
   action: z.literal("swipe"),
   ref: z.string(),
   direction: z.enum(["up", "down", "left", "right"]),
+  ...actionOptions,
+});
+
+const SwipeScreenCommand = z.object({
+  id: z.string(),
+  action: z.literal("swipe-screen"),
+  direction: z.enum(["up", "down", "left", "right"]),
+  distance: z.number().gt(0).max(1).optional(), // Fraction of the screen
+  from: z.object({ x: z.number(), y: z.number() }).optional(), // Start point
+  velocity: z.number().positive().optional(), // Points per second
+  ...alertOptions,
+});
+
+const TapAtCommand = z.object({
+  id: z.string(),
+  action: z.literal("tap-at"),
+  x: z.number(),
+  y: z.number(),
+  ...alertOptions,
+});
+
+const ScrollToCommand = z.object({
+  id: z.string(),
+  action: z.literal("scroll-to"),
+  ref: z.string(), // ref or selector
+  container: z.string().optional(), // Scroll view to scroll
+  maxSwipes: z.number().int().positive().optional(), // default 10
+  ...alertOptions,
+});
+
+const LongPressCommand = z.object({
+  id: z.string(),
+  action: z.literal("long-press"),
+  ref: z.string(),
+  duration: z.number().int().positive().optional(), // milliseconds, default 1000
+  ...actionOptions,
+});
+
+const DoubleTapCommand = z.object({
+  id: z.string(),
+  action: z.literal("double-tap"),
+  ref: z.string(),
+  ...actionOptions,
+});
+
+const PointSchema = z.object({ x: z.number(), y: z.number() });
+
+const DragCommand = z.object({
+  id: z.string(),
+  action: z.literal("drag"),
+  from: z.string(), // ref or selector
+  to: z.union([z.string(), PointSchema]), // ref/selector or screen point
+  duration: z.number().int().positive().optional(), // milliseconds, default 500
+  ...actionOptions,
+});
+
+const PinchCommand = z.object({
+  id: z.string(),
+  action: z.literal("pinch"),
+  ref: z.string(),
+  scale: z.number().positive(), // > 1 zooms in, < 1 zooms out
+  duration: z.number().int().positive().optional(), // milliseconds, default 500
+  ...actionOptions,
+});
+
+// W3C Actions pointer input, with coordinates in screen points
+const PointerActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("pointerMove"),
+    x: z.number(),
+    y: z.number(),
+    duration: z.number().int().min(0).optional(),
+    origin: z.enum(["viewport", "pointer"]).optional(),
+  }),
+  z.object({
+    type: z.literal("pointerDown"),
+    button: z.number().int().min(0).optional(),
+  }),
+  z.object({
+    type: z.literal("pointerUp"),
+    button: z.number().int().min(0).optional(),
+  }),
+  z.object({
+    type: z.literal("pause"),
+    duration: z.number().int().min(0),
+  }),
+]);
+
+export const PointerSequenceSchema = z.object({
+  type: z.literal("pointer"),
+  id: z.string(),
+  parameters: z
+    .object({ pointerType: z.enum(["touch", "mouse", "pen"]) })
+    .optional(),
+  actions: z.array(PointerActionSchema).min(1),
+});
+
+// One finger's input source in a W3C Actions request
+export type PointerSequence = z.infer<typeof PointerSequenceSchema>;
+
+const GestureCommand = z.object({
+  id: z.string(),
+  action: z.literal("gesture"),
+  actions: z.array(PointerSequenceSchema).min(1), // one sequence per finger
+  ...alertOptions,
+});
+
+const SetValueCommand = z.object({
+  id: z.string(),
+  action: z.literal("set-value"),
+  ref: z.string(),
+  value: z.string(),
+  ...actionOptions,
+});
+
+const FillCommand = z.object({
+  id: z.string(),
+  action: z.literal("fill"),
+  data: z.record(z.string(), z.string()), // Field label, placeholder or identifier -> text
+  ...actionOptions,
+});
+
+const PressCommand = z.object({
+  id: z.string(),
+  action: z.literal("press"),
+  button: z.enum(["home", "volume-up", "volume-down", "lock"]),
+  ...alertOptions,
+});
+
+const KeyCommand = z.object({
+  id: z.string(),
+  action: z.literal("key"),
+  key: z.enum(["return", "delete", "tab", "escape"]),
+  ...alertOptions,
+});
+
+const KeyboardCommand = z.object({
+  id: z.string(),
+  action: z.literal("keyboard"),
+  operation: z.enum(["hide", "status"]),
+  ...alertOptions,
 });
 
 const WaitCommand = z.object({
   id: z.string(),
   action: z.literal("wait"),
   ref: z.string(),
-  timeout: z.number().optional(), // milliseconds, default 10000
+  timeout: z.number().int().positive().optional(), // milliseconds, default 10000
 });
 
 const AlertAcceptCommand = z.object({
@@ -122,11 +333,25 @@ export const CommandSchema = z.discriminatedUnion("action", [
   StatusCommand,
   ListSimsCommand,
   SnapshotCommand,
+  FindCommand,
   ScreenshotCommand,
   TapCommand,
   TypeCommand,
   ClearCommand,
   SwipeCommand,
+  SwipeScreenCommand,
+  TapAtCommand,
+  ScrollToCommand,
+  LongPressCommand,
+  DoubleTapCommand,
+  DragCommand,
+  PinchCommand,
+  GestureCommand,
+  SetValueCommand,
+  FillCommand,
+  PressCommand,
+  KeyCommand,
+  KeyboardCommand,
   WaitCommand,
   AlertAcceptCommand,
   AlertDismissCommand,
@@ -138,17 +363,41 @@ export const CommandSchema = z.discriminatedUnion("action", [
 
 export type Command = z.infer<typeof CommandSchema>;
 
+// A system or app alert that blocks the UI
+export const AlertInfoSchema = z.object({
+  text: z.string(),
+  buttons: z.array(z.string()), // Labels, in display order
+});
+
+export type AlertInfo = z.infer<typeof AlertInfoSchema>;
+
+// An alert answered by one of the session's alert rules
+export const HandledAlertSchema = z.object({
+  rule: z.number(), // Index into the session's rules
+  textMatches: z.string(),
+  text: z.string(),
+  button: z.string().optional(),
+  action: z.enum(["accept", "dismiss"]).optional(),
+});
+
+export type HandledAlert = z.infer<typeof HandledAlertSchema>;
+
 // Response schemas
 const SuccessResponse = z.object({
   id: z.string(),
   success: z.literal(true),
   data: z.unknown(),
+  alert: AlertInfoSchema.optional(), // Alert showing after the command ran
+  handledAlerts: z.array(HandledAlertSchema).optional(), // Answered by rules first
 });
 
 const ErrorResponse = z.object({
   id: z.string(),
   success: z.literal(false),
   error: z.string(),
+  alert: AlertInfoSchema.optional(), // Alert blocking the command
+  suggestion: z.string().optional(),
+  handledAlerts: z.array(HandledAlertSchema).optional(),
 });
 
 export const ResponseSchema = z.union([SuccessResponse, ErrorResponse]);
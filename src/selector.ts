@@ -0,0 +1,294 @@
+// Selector language accepted anywhere a ref is, compiled to WDA queries.
+//
+//   Button[label="Log in"]        type + attribute conditions
+//   #loginButton                  accessibility identifier (WDA `name`)
+//   Cell:nth(3) > StaticText      4th cell, then its direct StaticText child
+//   Table Cell                    a cell anywhere below a table
+//   text="Continue"               label or value equals the text
+//
+// Attributes: label, identifier (or name/id), value, type, placeholder,
+// enabled, visible, selected. Operators: = (equals), *= (contains),
+// ^= (begins with), $= (ends with), ~= (regex). :nth(n) is 0-based and counts
+// the elements matching that step.
+
+// A single attribute condition
+export interface SelectorCondition {
+  attribute: string; // WDA attribute name, or "text" for label-or-value
+  operator: "=" | "*=" | "^=" | "$=" | "~=";
+  value: string;
+}
+
+// One step of a selector, e.g. Cell[label="Row"]:nth(2)
+export interface SelectorStep {
+  type?: string; // Full XCUIElementType name
+  conditions: SelectorCondition[];
+  nth?: number;
+  // How this step relates to the previous one
+  combinator: "descendant" | "child";
+}
+
+// Compiled WDA query
+export interface SelectorQuery {
+  using: "predicate string" | "class chain";
+  value: string;
+}
+
+// Error class for malformed selectors
+export class SelectorError extends Error {
+  constructor(
+    message: string,
+    public selector: string
+  ) {
+    super(message);
+    this.name = "SelectorError";
+  }
+}
+
+// Refs start with @ (@e5); anything else is treated as a selector
+export const isSelector = (target: string): boolean => !target.startsWith("@");
+
+// Quote a string for use in an NSPredicate (predicate strings and the
+// backtick conditions of class chains)
+export const quotePredicate = (value: string): string =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// Wrap a predicate in the backticks of a class chain condition; backticks
+// inside it are escaped by doubling
+export const classChainCondition = (predicate: string): string =>
+  `[\`${predicate.replace(/`/g, "``")}\`]`;
+
+// Selector attribute names mapped to WDA attribute names
+const ATTRIBUTES: Record<string, string> = {
+  label: "label",
+  identifier: "name",
+  name: "name",
+  id: "name",
+  value: "value",
+  type: "type",
+  placeholder: "placeholderValue",
+  enabled: "enabled",
+  visible: "visible",
+  selected: "selected",
+  text: "text",
+};
+
+const BOOLEAN_ATTRIBUTES = new Set(["enabled", "visible", "selected"]);
+
+const OPERATORS: Record<SelectorCondition["operator"], string> = {
+  "=": "==",
+  "*=": "CONTAINS",
+  "^=": "BEGINSWITH",
+  "$=": "ENDSWITH",
+  "~=": "MATCHES",
+};
+
+const fullType = (type: string): string =>
+  type.startsWith("XCUIElementType") ? type : `XCUIElementType${type}`;
+
+// Parse a selector string into steps
+export function parseSelector(selector: string): SelectorStep[] {
+  const steps: SelectorStep[] = [];
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new SelectorError(`${message} at position ${i + 1}`, selector);
+  };
+
+  // "e5" would otherwise parse as the type XCUIElementTypee5
+  if (/^e\d+$/.test(selector.trim())) {
+    throw new SelectorError(
+      `"${selector.trim()}" is not a ref; did you mean @${selector.trim()}?`,
+      selector
+    );
+  }
+
+  const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+  const skipSpaces = () => {
+    while (isSpace(selector[i])) i++;
+  };
+
+  // Words take * only as types, so [label*="x"] reads the operator
+  const readWord = (allowStar = false): string => {
+    const start = i;
+    const pattern = allowStar ? /[A-Za-z0-9_\-.*]/ : /[A-Za-z0-9_\-.]/;
+    while (i < selector.length && pattern.test(selector[i])) i++;
+    return selector.slice(start, i);
+  };
+
+  // Quoted ("..." or '...', backslash escapes) or bare value
+  const readValue = (terminators: string): string => {
+    const quote = selector[i];
+    if (quote === '"' || quote === "'") {
+      i++;
+      let value = "";
+      while (i < selector.length && selector[i] !== quote) {
+        if (selector[i] === "\\" && i + 1 < selector.length) i++;
+        value += selector[i++];
+      }
+      if (selector[i] !== quote) fail("Unterminated string");
+      i++;
+      return value;
+    }
+    const start = i;
+    while (
+      i < selector.length &&
+      !terminators.includes(selector[i]) &&
+      !isSpace(selector[i])
+    ) {
+      i++;
+    }
+    if (i === start) fail("Expected a value");
+    return selector.slice(start, i);
+  };
+
+  const readOperator = (): SelectorCondition["operator"] => {
+    for (const operator of ["*=", "^=", "$=", "~=", "="] as const) {
+      if (selector.startsWith(operator, i)) {
+        i += operator.length;
+        return operator;
+      }
+    }
+    return fail("Expected an operator (=, *=, ^=, $=, ~=)");
+  };
+
+  const parseStep = (combinator: SelectorStep["combinator"]): SelectorStep => {
+    const step: SelectorStep = { conditions: [], combinator };
+    const start = i;
+
+    // text="..." shorthand
+    const textMatch = /^text(\*=|\^=|\$=|~=|=)/.exec(selector.slice(i));
+    if (textMatch) {
+      i += 4;
+      const operator = readOperator();
+      step.conditions.push({
+        attribute: "text",
+        operator,
+        value: readValue(">[:#"),
+      });
+    } else {
+      const type = readWord(true);
+      if (type && type !== "*") step.type = fullType(type);
+    }
+
+    for (;;) {
+      const char = selector[i];
+      if (char === "#") {
+        i++;
+        step.conditions.push({
+          attribute: "name",
+          operator: "=",
+          value: readValue(">[:#"),
+        });
+      } else if (char === "[") {
+        i++;
+        skipSpaces();
+        const name = readWord();
+        const attribute = ATTRIBUTES[name];
+        if (!attribute) fail(`Unknown attribute "${name}"`);
+        skipSpaces();
+        const operator = readOperator();
+        skipSpaces();
+        const value = readValue("]");
+        skipSpaces();
+        if (selector[i] !== "]") fail("Expected ]");
+        i++;
+        if (BOOLEAN_ATTRIBUTES.has(attribute) && !/^(true|false)$/.test(value)) {
+          fail(`${name} must be true or false`);
+        }
+        step.conditions.push({ attribute, operator, value });
+      } else if (selector.startsWith(":nth(", i)) {
+        i += 5;
+        const digits = /^\d+/.exec(selector.slice(i));
+        if (!digits) fail("Expected a number in :nth()");
+        i += digits![0].length;
+        if (selector[i] !== ")") fail("Expected )");
+        i++;
+        step.nth = parseInt(digits![0], 10);
+      } else {
+        break;
+      }
+    }
+
+    if (i === start) fail("Expected a type, #identifier, [attribute] or text=");
+    return step;
+  };
+
+  skipSpaces();
+  let combinator: SelectorStep["combinator"] = "descendant";
+  while (i < selector.length) {
+    steps.push(parseStep(combinator));
+
+    const before = i;
+    skipSpaces();
+    if (i >= selector.length) break;
+    if (selector[i] === ">") {
+      i++;
+      skipSpaces();
+      combinator = "child";
+    } else if (i > before) {
+      combinator = "descendant";
+    } else {
+      fail(`Unexpected "${selector[i]}"`);
+    }
+  }
+
+  if (steps.length === 0) fail("Empty selector");
+
+  // A lone * would compile to an empty predicate matching everything
+  const [first] = steps;
+  if (
+    steps.length === 1 &&
+    !first.type &&
+    first.conditions.length === 0 &&
+    first.nth === undefined
+  ) {
+    throw new SelectorError(
+      "A bare * matches every element; add a type, #identifier or [attribute]",
+      selector
+    );
+  }
+  return steps;
+}
+
+// NSPredicate condition for one selector condition
+const compileCondition = (condition: SelectorCondition): string => {
+  const operator = OPERATORS[condition.operator];
+  if (BOOLEAN_ATTRIBUTES.has(condition.attribute)) {
+    return `${condition.attribute} == ${condition.value === "true" ? 1 : 0}`;
+  }
+  const value =
+    condition.attribute === "type" ? fullType(condition.value) : condition.value;
+  const quoted = quotePredicate(value);
+  if (condition.attribute === "text") {
+    return `(label ${operator} ${quoted} OR value ${operator} ${quoted})`;
+  }
+  return `${condition.attribute} ${operator} ${quoted}`;
+};
+
+// Compile steps to a WDA query: a predicate string for a single step without
+// :nth, a class chain otherwise
+export function compileSelector(steps: SelectorStep[]): SelectorQuery {
+  if (steps.length === 1 && steps[0].nth === undefined) {
+    const [step] = steps;
+    const conditions = step.conditions.map(compileCondition);
+    if (step.type) conditions.unshift(`type == ${quotePredicate(step.type)}`);
+    return { using: "predicate string", value: conditions.join(" AND ") };
+  }
+
+  const chain = steps
+    .map((step, index) => {
+      let part = step.type ?? "*";
+      if (step.conditions.length > 0) {
+        part += classChainCondition(
+          step.conditions.map(compileCondition).join(" AND ")
+        );
+      }
+      // Class chain indices are 1-based
+      if (step.nth !== undefined) part += `[${step.nth + 1}]`;
+
+      if (index === 0) return `**/${part}`;
+      return step.combinator === "child" ? `/${part}` : `/**/${part}`;
+    })
+    .join("");
+  return { using: "class chain", value: chain };
+}
@@ -1,3 +1,13 @@
+import { parseXML, XMLParseError, type XMLNode } from "./xml.js";
+import {
+  parseSelector,
+  compileSelector,
+  quotePredicate,
+  classChainCondition,
+  isSelector,
+  SelectorError,
+} from "./selector.js";
+
 // Element in our snapshot format
 export interface Element {
   ref: string;
@@ -7,8 +17,37 @@ export interface Element {
   value: string | null;
   frame: { x: number; y: number; w: number; h: number };
   enabled: boolean;
-  visible: boolean;
+  visible: boolean; // As reported by WDA
+  visibility: ScreenVisibility; // Frame checked against window and scroll views
+  scrollHint?: ScrollDirection; // Which way to scroll to bring it onscreen
+  fresh?: boolean; // Ref first issued in this snapshot, not reused
   children: string[];
+  truncated?: number; // Children omitted by a depth limit or condensation
+  // Optional state, omitted when unset
+  selected?: boolean; // e.g. the active tab or segment
+  focused?: boolean; // Has keyboard focus (WDA `hasFocus`)
+  accessible?: boolean;
+  placeholderValue?: string; // Placeholder of an empty text field
+  index?: number; // Index among siblings, as reported by WDA
+  traits?: string[]; // Accessibility traits, e.g. ["Button", "Selected"]
+}
+
+// Where an element's frame lies relative to the window and the scroll
+// views containing it
+export type ScreenVisibility = "onscreen" | "partial" | "offscreen";
+
+// Direction to scroll the content in (the opposite of the swipe direction):
+// "down" means the element is further down than the visible area
+export type ScrollDirection = "up" | "down" | "left" | "right";
+
+// Element without its child refs (used where the tree shape is irrelevant)
+export type ElementSummary = Omit<Element, "children">;
+
+// Labeled ancestor recorded for disambiguation
+export interface AncestorInfo {
+  type: string;
+  label?: string;
+  identifier?: string;
 }
 
 // RefMap entry for quick LLM reference
@@ -16,6 +55,28 @@ export interface RefMapEntry {
   type: string;
   label?: string;
   identifier?: string;
+  fresh?: boolean; // Ref first issued in this snapshot
+  selected?: boolean;
+  focused?: boolean;
+  accessible?: boolean;
+  placeholderValue?: string;
+  index?: number;
+  traits?: string[];
+  // Only set when not fully onscreen
+  visibility?: ScreenVisibility;
+  scrollHint?: ScrollDirection;
+  // Disambiguation context, only recorded when the element's query
+  // (identifier, else type + label) matches several elements
+  ordinal?: number; // Index among elements matching the same query
+  matches?: number; // Number of elements matching the query at snapshot time
+  ancestors?: AncestorInfo[]; // Nearest labeled ancestors, closest first
+  frame?: { x: number; y: number; w: number; h: number };
+}
+
+// Software keyboard state
+export interface KeyboardState {
+  visible: boolean;
+  returnKey?: string; // Return key label, e.g. "return", "search", "go"
 }
 
 // Complete snapshot
@@ -24,206 +85,336 @@ export interface Snapshot {
   elements: Element[];
   tree: string; // Root ref
   refMap: Record<string, RefMapEntry>;
+  generation?: number; // RefStore generation the snapshot was taken in
+  keyboard?: KeyboardState; // Always checked against the whole screen
 }
 
-// Simple XML node representation
-interface XMLNode {
-  tag: string;
-  attributes: Record<string, string>;
-  children: XMLNode[];
+// Options for building a snapshot
+export interface ParseOptions {
+  // Only include the subtree rooted at this previously issued ref
+  scope?: { ref: string; entry: RefMapEntry };
+  // Omit descendants deeper than this (the snapshot root is depth 0)
+  maxDepth?: number;
+  // Reuse refs issued for the same elements in earlier snapshots
+  refStore?: RefStore;
+  // Start a new ref generation (a new snapshot, rather than re-locating a
+  // known element). Only happens once the source has parsed.
+  newGeneration?: boolean;
 }
 
-// Simple XML parser (no external dependencies)
-function parseXML(xml: string): XMLNode | null {
-  const stack: XMLNode[] = [];
-  let current: XMLNode | null = null;
-  let i = 0;
+const nodeLabel = (attrs: Record<string, string>): string | null =>
+  attrs.label || attrs.name || null;
 
-  const skipWhitespace = () => {
-    while (i < xml.length && /\s/.test(xml[i])) i++;
-  };
+const nodeIdentifier = (attrs: Record<string, string>): string | null =>
+  attrs.identifier || attrs.name || null;
 
-  const parseAttributes = (): Record<string, string> => {
-    const attrs: Record<string, string> = {};
-    skipWhitespace();
+const matchesEntry = (node: XMLNode, entry: RefMapEntry): boolean => {
+  if (node.tag !== entry.type) return false;
+  if (entry.identifier && nodeIdentifier(node.attributes) !== entry.identifier) {
+    return false;
+  }
+  if (entry.label && nodeLabel(node.attributes) !== entry.label) {
+    return false;
+  }
+  return true;
+};
 
-    while (i < xml.length && xml[i] !== ">" && xml[i] !== "/" && xml[i] !== "?") {
-      skipWhitespace();
-      if (xml[i] === ">" || xml[i] === "/" || xml[i] === "?") break;
+// Optional element state from WDA attributes. Only set values are returned,
+// so the default output doesn't grow.
+const optionalAttributes = (attrs: Record<string, string>): Partial<Element> => {
+  const optional: Partial<Element> = {};
+  if (attrs.selected === "true") optional.selected = true;
+  if (attrs.hasFocus === "true" || attrs.focused === "true") {
+    optional.focused = true;
+  }
+  if (attrs.accessible === "true" || attrs.accessible === "false") {
+    optional.accessible = attrs.accessible === "true";
+  }
+  if (attrs.placeholderValue) optional.placeholderValue = attrs.placeholderValue;
+  if (attrs.index && /^\d+$/.test(attrs.index)) {
+    optional.index = parseInt(attrs.index, 10);
+  }
+  if (attrs.traits) {
+    const traits = attrs.traits
+      .split(",")
+      .map((trait) => trait.trim())
+      .filter(Boolean);
+    if (traits.length > 0) optional.traits = traits;
+  }
+  return optional;
+};
 
-      // Parse attribute name
-      let name = "";
-      while (i < xml.length && xml[i] !== "=" && xml[i] !== ">" && !/\s/.test(xml[i])) {
-        name += xml[i++];
-      }
-      if (!name) break;
-
-      skipWhitespace();
-      if (xml[i] !== "=") continue;
-      i++; // skip =
-      skipWhitespace();
-
-      // Parse attribute value
-      const quote = xml[i];
-      if (quote !== '"' && quote !== "'") continue;
-      i++; // skip opening quote
-
-      let value = "";
-      while (i < xml.length && xml[i] !== quote) {
-        if (xml[i] === "&") {
-          // Handle basic XML entities
-          if (xml.slice(i, i + 4) === "&lt;") {
-            value += "<";
-            i += 4;
-          } else if (xml.slice(i, i + 4) === "&gt;") {
-            value += ">";
-            i += 4;
-          } else if (xml.slice(i, i + 5) === "&amp;") {
-            value += "&";
-            i += 5;
-          } else if (xml.slice(i, i + 6) === "&quot;") {
-            value += '"';
-            i += 6;
-          } else if (xml.slice(i, i + 6) === "&apos;") {
-            value += "'";
-            i += 6;
-          } else {
-            value += xml[i++];
-          }
-        } else {
-          value += xml[i++];
-        }
-      }
-      i++; // skip closing quote
+type Rect = Element["frame"];
+
+const nodeFrame = (attrs: Record<string, string>): Rect => ({
+  x: parseFloat(attrs.x || "0"),
+  y: parseFloat(attrs.y || "0"),
+  w: parseFloat(attrs.width || "0"),
+  h: parseFloat(attrs.height || "0"),
+});
+
+// Containers that clip their content to their own frame
+const SCROLLABLE_TYPES = new Set([
+  "XCUIElementTypeScrollView",
+  "XCUIElementTypeTable",
+  "XCUIElementTypeCollectionView",
+  "XCUIElementTypeWebView",
+]);
+
+// Whether elements of this type scroll their content
+export const isScrollable = (type: string): boolean =>
+  SCROLLABLE_TYPES.has(type);
+
+const intersect = (a: Rect, b: Rect): Rect => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.w, b.x + b.w);
+  const bottom = Math.min(a.y + a.h, b.y + b.h);
+  return { x, y, w: Math.max(0, right - x), h: Math.max(0, bottom - y) };
+};
+
+// Classify a frame against the visible area it is clipped to
+const classifyFrame = (
+  frame: Rect,
+  clip: Rect
+): { visibility: ScreenVisibility; scrollHint?: ScrollDirection } => {
+  if (frame.w <= 0 || frame.h <= 0) {
+    return { visibility: "offscreen" };
+  }
 
-      attrs[name] = value;
-      skipWhitespace();
+  const shown = intersect(frame, clip);
+  const ratio = (shown.w * shown.h) / (frame.w * frame.h);
+  if (ratio >= 0.99) {
+    return { visibility: "onscreen" };
+  }
+
+  const visibility = ratio > 0 ? "partial" : "offscreen";
+  if (frame.y + frame.h > clip.y + clip.h) {
+    return { visibility, scrollHint: "down" };
+  }
+  if (frame.y < clip.y) return { visibility, scrollHint: "up" };
+  if (frame.x + frame.w > clip.x + clip.w) {
+    return { visibility, scrollHint: "right" };
+  }
+  if (frame.x < clip.x) return { visibility, scrollHint: "left" };
+  return { visibility };
+};
+
+// Return key labels for each UIReturnKeyType
+const RETURN_KEY_LABELS = new Set([
+  "return",
+  "go",
+  "google",
+  "join",
+  "next",
+  "route",
+  "search",
+  "send",
+  "yahoo",
+  "done",
+  "emergency call",
+  "continue",
+]);
+
+// Find the software keyboard in a source tree and its return key type
+const detectKeyboard = (root: XMLNode): KeyboardState => {
+  const findKeyboard = (node: XMLNode): XMLNode | null => {
+    if (node.tag === "XCUIElementTypeKeyboard") return node;
+    for (const child of node.children) {
+      const found = findKeyboard(child);
+      if (found) return found;
     }
+    return null;
+  };
+
+  const keyboard = findKeyboard(root);
+  if (!keyboard || keyboard.attributes.visible === "false") {
+    return { visible: false };
+  }
+  const shown = intersect(
+    nodeFrame(keyboard.attributes),
+    nodeFrame(root.attributes)
+  );
+  if (shown.w * shown.h === 0) return { visible: false };
 
-    return attrs;
+  const findReturnKey = (node: XMLNode): string | null => {
+    const label = (nodeLabel(node.attributes) ?? "").toLowerCase();
+    if (
+      (node.tag === "XCUIElementTypeButton" || node.tag === "XCUIElementTypeKey") &&
+      RETURN_KEY_LABELS.has(label)
+    ) {
+      return label;
+    }
+    for (const child of node.children) {
+      const found = findReturnKey(child);
+      if (found) return found;
+    }
+    return null;
   };
 
-  while (i < xml.length) {
-    skipWhitespace();
-    if (i >= xml.length) break;
+  const returnKey = findReturnKey(keyboard);
+  return returnKey ? { visible: true, returnKey } : { visible: true };
+};
 
-    if (xml[i] === "<") {
-      i++;
+// Key of the WDA query resolveRef tries first for a node: accessibility id
+// when there is an identifier, otherwise type + label
+const queryKey = (node: XMLNode): string | null => {
+  const identifier = nodeIdentifier(node.attributes);
+  if (identifier) return `id:${identifier}`;
+  const label = nodeLabel(node.attributes);
+  if (label) return `label:${node.tag}:${label}`;
+  return null;
+};
 
-      // Skip XML declaration and comments
-      if (xml[i] === "?") {
-        while (i < xml.length && !(xml[i - 1] === "?" && xml[i] === ">")) i++;
-        i++;
-        continue;
-      }
-      if (xml[i] === "!") {
-        // Skip comments and CDATA
-        if (xml.slice(i, i + 3) === "!--") {
-          while (i < xml.length && xml.slice(i, i + 3) !== "-->") i++;
-          i += 3;
-        } else {
-          while (i < xml.length && xml[i] !== ">") i++;
-          i++;
-        }
-        continue;
-      }
+// How many labeled ancestors to record for ambiguous elements
+const MAX_ANCESTORS = 3;
 
-      // Closing tag
-      if (xml[i] === "/") {
-        i++;
-        while (i < xml.length && xml[i] !== ">") i++;
-        i++;
-        if (stack.length > 0) {
-          current = stack.pop()!;
-        }
-        continue;
-      }
+// Convert parsed XML to our snapshot format
+export function parseWDASource(
+  xml: string,
+  options: ParseOptions = {}
+): Snapshot {
+  let root: XMLNode;
+  try {
+    root = parseXML(xml);
+  } catch (err) {
+    if (err instanceof XMLParseError) {
+      throw new Error(`Failed to parse WDA source XML: ${err.message}`);
+    }
+    throw err;
+  }
 
-      // Opening tag
-      let tag = "";
-      while (i < xml.length && xml[i] !== ">" && xml[i] !== "/" && !/\s/.test(xml[i])) {
-        tag += xml[i++];
-      }
+  // Identity of every node: identifier when present, otherwise type + label
+  // + ancestor path. Repeats are told apart by their occurrence index.
+  const identities = new Map<XMLNode, string>();
+  const occurrences = new Map<string, number>();
+  const parents = new Map<XMLNode, XMLNode>();
 
-      const node: XMLNode = {
-        tag,
-        attributes: parseAttributes(),
-        children: [],
-      };
+  // Position of every node among the nodes its resolution query would
+  // find, in document order (the order WDA returns matches in)
+  const queryOrdinals = new Map<XMLNode, number>();
+  const queryCounts = new Map<string, number>();
 
-      if (current) {
-        current.children.push(node);
-      }
+  const identifyNode = (node: XMLNode, path: string) => {
+    const identifier = nodeIdentifier(node.attributes);
+    const base = identifier
+      ? `${node.tag}#${identifier}`
+      : `${path}/${node.tag}"${nodeLabel(node.attributes) ?? ""}"`;
+    const occurrence = occurrences.get(base) ?? 0;
+    occurrences.set(base, occurrence + 1);
+    identities.set(node, `${base}[${occurrence}]`);
 
-      // Self-closing tag
-      skipWhitespace();
-      if (xml[i] === "/") {
-        i++; // skip /
-        while (i < xml.length && xml[i] !== ">") i++;
-        i++; // skip >
-        if (!current) {
-          return node;
-        }
-        continue;
-      }
+    const query = queryKey(node);
+    if (query) {
+      const ordinal = queryCounts.get(query) ?? 0;
+      queryCounts.set(query, ordinal + 1);
+      queryOrdinals.set(node, ordinal);
+    }
 
-      // Regular tag - push to stack
-      if (xml[i] === ">") {
-        i++;
-        if (current) {
-          stack.push(current);
-        }
-        current = node;
-      }
-    } else {
-      // Skip text content
-      while (i < xml.length && xml[i] !== "<") i++;
+    for (const child of node.children) {
+      parents.set(child, node);
+      identifyNode(child, `${path}/${node.tag}`);
     }
-  }
+  };
+  identifyNode(root, "");
 
-  return current || (stack.length > 0 ? stack[0] : null);
-}
+  // Refs are reused from the store when given; otherwise numbered in order
+  let refCounter = 0;
+  const refStore = options.refStore;
+  const allocateRef = (node: XMLNode): string =>
+    refStore
+      ? refStore.allocate(identities.get(node)!)
+      : `@e${refCounter++}`;
 
-// Convert parsed XML to our snapshot format
-export function parseWDASource(xml: string): Snapshot {
-  const root = parseXML(xml);
-  if (!root) {
-    throw new Error("Failed to parse WDA source XML");
+  let start = root;
+  if (options.scope) {
+    const { ref, entry } = options.scope;
+    const identity = refStore?.identityOf(ref);
+
+    // Prefer the element the ref was issued for; fall back to the first
+    // element that still matches the ref's type, label and identifier
+    let found: XMLNode | null = null;
+    for (const [node, nodeIdentity] of identities) {
+      if (identity !== undefined && nodeIdentity === identity) {
+        found = node;
+        break;
+      }
+      if (!found && matchesEntry(node, entry)) {
+        found = node;
+      }
+    }
+
+    if (!found) {
+      throw new RefResolutionError(
+        `Element ${ref} not found. UI may have changed. Run 'snapshot' for updated refs.`,
+        ref,
+        "snapshot"
+      );
+    }
+    start = found;
   }
 
+  if (refStore && options.newGeneration) refStore.nextGeneration();
+
   const elements: Element[] = [];
   const refMap: Record<string, RefMapEntry> = {};
-  let refCounter = 0;
 
-  const processNode = (node: XMLNode, parentRef: string | null): string => {
-    const ref = `@e${refCounter++}`;
+  // Visible area for an element: the window, narrowed by every scroll view
+  // it sits in
+  const childClip = (node: XMLNode, clip: Rect): Rect =>
+    SCROLLABLE_TYPES.has(node.tag)
+      ? intersect(clip, nodeFrame(node.attributes))
+      : clip;
+
+  let startClip = nodeFrame(root.attributes);
+  const startAncestors: XMLNode[] = [];
+  for (let parent = parents.get(start); parent; parent = parents.get(parent)) {
+    startAncestors.unshift(parent);
+  }
+  for (const ancestor of startAncestors) {
+    startClip = childClip(ancestor, startClip);
+  }
+
+  const processNode = (node: XMLNode, depth: number, clip: Rect): string => {
+    const ref = allocateRef(node);
 
     const attrs = node.attributes;
 
     // Parse frame
-    const x = parseFloat(attrs.x || "0");
-    const y = parseFloat(attrs.y || "0");
-    const width = parseFloat(attrs.width || "0");
-    const height = parseFloat(attrs.height || "0");
+    const frame = nodeFrame(attrs);
 
     // Process children first to get their refs
     const childRefs: string[] = [];
-    for (const child of node.children) {
-      const childRef = processNode(child, ref);
-      childRefs.push(childRef);
+    const atDepthLimit =
+      options.maxDepth !== undefined && depth >= options.maxDepth;
+    if (!atDepthLimit) {
+      for (const child of node.children) {
+        const childRef = processNode(child, depth + 1, childClip(node, clip));
+        childRefs.push(childRef);
+      }
     }
 
+    const { visibility, scrollHint } = classifyFrame(frame, clip);
     const element: Element = {
       ref,
       type: node.tag,
-      label: attrs.label || attrs.name || null,
-      identifier: attrs.identifier || attrs.name || null,
+      label: nodeLabel(attrs),
+      identifier: nodeIdentifier(attrs),
       value: attrs.value || null,
-      frame: { x, y, w: width, h: height },
+      frame,
       enabled: attrs.enabled !== "false",
       visible: attrs.visible !== "false",
+      visibility,
       children: childRefs,
     };
+    if (scrollHint) element.scrollHint = scrollHint;
+    if (refStore && refStore.issuedIn(ref) === refStore.generation) {
+      element.fresh = true;
+    }
+    if (atDepthLimit && node.children.length > 0) {
+      element.truncated = node.children.length;
+    }
+    Object.assign(element, optionalAttributes(attrs));
 
     elements.push(element);
 
@@ -231,49 +422,713 @@ export function parseWDASource(xml: string): Snapshot {
     const refEntry: RefMapEntry = { type: node.tag };
     if (element.label) refEntry.label = element.label;
     if (element.identifier) refEntry.identifier = element.identifier;
+    if (element.fresh) refEntry.fresh = true;
+    if (element.selected) refEntry.selected = true;
+    if (element.focused) refEntry.focused = true;
+    if (element.accessible !== undefined) {
+      refEntry.accessible = element.accessible;
+    }
+    if (element.placeholderValue) {
+      refEntry.placeholderValue = element.placeholderValue;
+    }
+    if (element.index !== undefined) refEntry.index = element.index;
+    if (element.traits) refEntry.traits = element.traits;
+    if (element.visibility !== "onscreen") {
+      refEntry.visibility = element.visibility;
+      if (element.scrollHint) refEntry.scrollHint = element.scrollHint;
+    }
+
+    const query = queryKey(node);
+    const matches = query ? queryCounts.get(query)! : 0;
+    if (matches > 1) {
+      refEntry.ordinal = queryOrdinals.get(node);
+      refEntry.matches = matches;
+      refEntry.frame = element.frame;
+
+      const ancestors: AncestorInfo[] = [];
+      for (
+        let parent = parents.get(node);
+        parent && ancestors.length < MAX_ANCESTORS;
+        parent = parents.get(parent)
+      ) {
+        const label = nodeLabel(parent.attributes);
+        const identifier = nodeIdentifier(parent.attributes);
+        if (!label && !identifier) continue;
+        const ancestor: AncestorInfo = { type: parent.tag };
+        if (label) ancestor.label = label;
+        if (identifier) ancestor.identifier = identifier;
+        ancestors.push(ancestor);
+      }
+      if (ancestors.length > 0) refEntry.ancestors = ancestors;
+    }
+
     refMap[ref] = refEntry;
 
     return ref;
   };
 
-  const treeRef = processNode(root, null);
+  const treeRef = processNode(start, 0, startClip);
 
-  return {
+  const snapshot: Snapshot = {
     timestamp: new Date().toISOString(),
     elements,
     tree: treeRef,
     refMap,
+    keyboard: detectKeyboard(root),
+  };
+  if (refStore) snapshot.generation = refStore.generation;
+
+  return snapshot;
+}
+
+// Element types an agent can act on
+const INTERACTIVE_TYPES = new Set([
+  "XCUIElementTypeButton",
+  "XCUIElementTypeCell",
+  "XCUIElementTypeTextField",
+  "XCUIElementTypeSecureTextField",
+  "XCUIElementTypeSearchField",
+  "XCUIElementTypeTextView",
+  "XCUIElementTypeSwitch",
+  "XCUIElementTypeSlider",
+  "XCUIElementTypeStepper",
+  "XCUIElementTypeSegmentedControl",
+  "XCUIElementTypePickerWheel",
+  "XCUIElementTypeLink",
+]);
+
+// Whether an element is actionable or carries readable text
+export const isInteractiveElement = (element: Element): boolean => {
+  if (INTERACTIVE_TYPES.has(element.type)) return true;
+  return element.type === "XCUIElementTypeStaticText" && !!element.label;
+};
+
+// Reduce a snapshot to interactive elements, keeping the nearest labeled
+// ancestor of each one for context. Refs are unchanged, so they still
+// resolve against the full snapshot's refMap.
+export function filterInteractive(snapshot: Snapshot): Snapshot {
+  const byRef = new Map<string, Element>();
+  const parentOf = new Map<string, string>();
+  for (const element of snapshot.elements) {
+    byRef.set(element.ref, element);
+    for (const childRef of element.children) {
+      parentOf.set(childRef, element.ref);
+    }
+  }
+
+  const keep = new Set<string>([snapshot.tree]);
+  for (const element of snapshot.elements) {
+    if (!isInteractiveElement(element)) continue;
+    keep.add(element.ref);
+
+    // Walk up to the nearest ancestor with a label or identifier
+    let parentRef = parentOf.get(element.ref);
+    while (parentRef) {
+      const parent = byRef.get(parentRef)!;
+      if (parent.label || parent.identifier) {
+        keep.add(parentRef);
+        break;
+      }
+      parentRef = parentOf.get(parentRef);
+    }
+  }
+
+  // Re-link each kept element to its nearest kept descendants
+  const keptChildren = (element: Element): string[] => {
+    const result: string[] = [];
+    for (const childRef of element.children) {
+      if (keep.has(childRef)) {
+        result.push(childRef);
+      } else {
+        result.push(...keptChildren(byRef.get(childRef)!));
+      }
+    }
+    return result;
+  };
+
+  const elements: Element[] = [];
+  const refMap: Record<string, RefMapEntry> = {};
+  for (const element of snapshot.elements) {
+    if (!keep.has(element.ref)) continue;
+    elements.push({ ...element, children: keptChildren(element) });
+    refMap[element.ref] = snapshot.refMap[element.ref];
+  }
+
+  return {
+    ...snapshot,
+    elements,
+    refMap,
   };
 }
 
+// What condenseSnapshot left out to fit a token budget
+export interface CondenseReport {
+  maxTokens: number;
+  estimatedTokens: number;
+  fits: boolean;
+  droppedDecorative: number; // Unlabeled, non-interactive elements removed
+  shortenedText: number; // Labels/values cut to MAX_TEXT_LENGTH
+  // Containers with children left out; `snapshot <ref>` shows them all
+  elided: Array<{
+    ref: string;
+    type: string;
+    label: string | null;
+    omitted: number;
+  }>;
+  hint?: string;
+}
+
+// Rough token estimate for LLM budgets (~4 characters per token)
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+// Longest label/value kept when condensing
+const MAX_TEXT_LENGTH = 60;
+
+// How many same-type siblings to keep, tried in order until the budget fits
+const SIBLING_LIMITS = [10, 5, 3, 1];
+
+// Condense a snapshot to fit a token budget, measured on its rendered form.
+// Steps are applied in order until it fits: drop decorative elements,
+// shorten long text, summarize runs of same-type siblings, then cut depth.
+// Every element still shown keeps its ref.
+export function condenseSnapshot(
+  snapshot: Snapshot,
+  maxTokens: number,
+  render: (snapshot: Snapshot) => string
+): { snapshot: Snapshot; report: CondenseReport } {
+  const byRef = new Map<string, Element>();
+  for (const element of snapshot.elements) {
+    byRef.set(element.ref, { ...element, children: [...element.children] });
+  }
+
+  const report: CondenseReport = {
+    maxTokens,
+    estimatedTokens: 0,
+    fits: false,
+    droppedDecorative: 0,
+    shortenedText: 0,
+    elided: [],
+  };
+  const omitted = new Map<string, number>();
+
+  // Current state as a snapshot: reachable elements only, in original order
+  const build = (): Snapshot => {
+    const reachable = new Set<string>();
+    const visit = (ref: string) => {
+      reachable.add(ref);
+      byRef.get(ref)!.children.forEach(visit);
+    };
+    visit(snapshot.tree);
+
+    const elements: Element[] = [];
+    const refMap: Record<string, RefMapEntry> = {};
+    for (const { ref } of snapshot.elements) {
+      if (!reachable.has(ref)) continue;
+      const element = byRef.get(ref)!;
+      const truncated = (element.truncated ?? 0) + (omitted.get(ref) ?? 0);
+      elements.push(truncated > 0 ? { ...element, truncated } : element);
+
+      // Keep the refMap in line with shortened labels
+      const entry = snapshot.refMap[ref];
+      refMap[ref] =
+        entry.label && element.label && entry.label !== element.label
+          ? { ...entry, label: element.label }
+          : entry;
+    }
+    return { ...snapshot, elements, refMap };
+  };
+
+  const fits = (): boolean => {
+    report.estimatedTokens = estimateTokens(render(build()));
+    return report.estimatedTokens <= maxTokens;
+  };
+
+  const finish = () => {
+    const condensed = build();
+    report.fits = report.estimatedTokens <= maxTokens;
+    const shown = new Set(condensed.elements.map((element) => element.ref));
+    report.elided = [...omitted.entries()]
+      .filter(([ref]) => shown.has(ref))
+      .map(([ref, count]) => {
+        const element = byRef.get(ref)!;
+        return { ref, type: element.type, label: element.label, omitted: count };
+      });
+    if (report.elided.length > 0) {
+      report.hint = `Run 'snapshot ${report.elided[0].ref}' (or another elided ref) to see the omitted children.`;
+    }
+    return { snapshot: condensed, report };
+  };
+
+  if (fits()) return finish();
+
+  // 1. Drop decorative elements: unlabeled, non-interactive leaves go away
+  // and unlabeled wrappers are replaced by their children
+  const isDecorative = (element: Element): boolean =>
+    !element.label &&
+    !element.identifier &&
+    !element.value &&
+    !element.truncated &&
+    !isInteractiveElement(element);
+
+  const prune = (ref: string): string[] => {
+    const element = byRef.get(ref)!;
+    element.children = element.children.flatMap(prune);
+    if (ref === snapshot.tree || !isDecorative(element)) return [ref];
+    report.droppedDecorative++;
+    return element.children;
+  };
+  prune(snapshot.tree);
+  if (fits()) return finish();
+
+  // 2. Shorten long labels and values
+  const shorten = (text: string | null): string | null => {
+    if (!text || text.length <= MAX_TEXT_LENGTH) return text;
+    report.shortenedText++;
+    return `${text.slice(0, MAX_TEXT_LENGTH - 1)}…`;
+  };
+  for (const element of byRef.values()) {
+    element.label = shorten(element.label);
+    element.value = shorten(element.value);
+  }
+  if (fits()) return finish();
+
+  // 3. Summarize runs of same-type siblings (e.g. 200 table cells)
+  for (const limit of SIBLING_LIMITS) {
+    for (const element of byRef.values()) {
+      const seen = new Map<string, number>();
+      const kept: string[] = [];
+      for (const childRef of element.children) {
+        const type = byRef.get(childRef)!.type;
+        const count = (seen.get(type) ?? 0) + 1;
+        seen.set(type, count);
+        if (count <= limit) {
+          kept.push(childRef);
+        } else {
+          omitted.set(element.ref, (omitted.get(element.ref) ?? 0) + 1);
+        }
+      }
+      element.children = kept;
+    }
+    if (fits()) return finish();
+  }
+
+  // 4. Cut the deepest levels until it fits (or only the root is left)
+  for (;;) {
+    const depths = new Map<string, number>();
+    let maxDepth = 0;
+    const measure = (ref: string, depth: number) => {
+      depths.set(ref, depth);
+      maxDepth = Math.max(maxDepth, depth);
+      byRef.get(ref)!.children.forEach((child) => measure(child, depth + 1));
+    };
+    measure(snapshot.tree, 0);
+    if (maxDepth === 0) break;
+
+    for (const [ref, depth] of depths) {
+      const element = byRef.get(ref)!;
+      if (depth === maxDepth - 1 && element.children.length > 0) {
+        omitted.set(ref, (omitted.get(ref) ?? 0) + element.children.length);
+        element.children = [];
+      }
+    }
+    if (fits()) break;
+  }
+
+  return finish();
+}
+
+// Criteria for finding elements without a full snapshot. All given
+// criteria must match.
+export interface FindQuery {
+  type?: string; // "Button" or "XCUIElementTypeButton"
+  label?: string;
+  identifier?: string;
+  value?: string;
+  contains?: string; // Case-insensitive substring of label, identifier or value
+  matches?: string; // Regex tested against label, identifier or value
+}
+
+// Elements of a snapshot matching a query, in document order
+export function findElements(snapshot: Snapshot, query: FindQuery): Element[] {
+  const type =
+    query.type && !query.type.startsWith("XCUIElementType")
+      ? `XCUIElementType${query.type}`
+      : query.type;
+  const contains = query.contains?.toLowerCase();
+  const pattern =
+    query.matches !== undefined ? new RegExp(query.matches) : undefined;
+
+  const texts = (element: Element): string[] =>
+    [element.label, element.identifier, element.value].filter(
+      (text): text is string => text !== null
+    );
+
+  const matches = (element: Element): boolean => {
+    if (type && element.type !== type) return false;
+    if (query.label !== undefined && element.label !== query.label) return false;
+    if (
+      query.identifier !== undefined &&
+      element.identifier !== query.identifier
+    ) {
+      return false;
+    }
+    if (query.value !== undefined && element.value !== query.value) return false;
+    if (
+      contains !== undefined &&
+      !texts(element).some((text) => text.toLowerCase().includes(contains))
+    ) {
+      return false;
+    }
+    if (pattern && !texts(element).some((text) => pattern.test(text))) {
+      return false;
+    }
+    return true;
+  };
+
+  // Elements are stored children-first; report them in document order
+  const byRef = new Map<string, Element>();
+  for (const element of snapshot.elements) {
+    byRef.set(element.ref, element);
+  }
+  const found: Element[] = [];
+  const visit = (ref: string) => {
+    const element = byRef.get(ref);
+    if (!element) return;
+    if (matches(element)) found.push(element);
+    element.children.forEach(visit);
+  };
+  visit(snapshot.tree);
+
+  return found;
+}
+
+// Strip the XCUIElementType prefix for compact output
+export const shortType = (type: string): string => {
+  return type.replace(/^XCUIElementType/, "");
+};
+
+// One-line summary of an element: type, label, ref, identifier, value, state
+const describeElement = (element: ElementSummary): string => {
+  let line = shortType(element.type);
+  if (element.label) line += ` ${JSON.stringify(element.label)}`;
+  line += ` [${element.ref}]`;
+  if (element.identifier && element.identifier !== element.label) {
+    line += ` #${element.identifier}`;
+  }
+  if (element.value) line += ` value=${JSON.stringify(element.value)}`;
+  if (element.placeholderValue && element.placeholderValue !== element.value) {
+    line += ` placeholder=${JSON.stringify(element.placeholderValue)}`;
+  }
+  if (element.selected) line += " (selected)";
+  if (element.focused) line += " (focused)";
+  if (!element.enabled) line += " (disabled)";
+  if (element.visibility === "offscreen" || !element.visible) {
+    line += element.scrollHint
+      ? ` (offscreen, scroll ${element.scrollHint})`
+      : " (offscreen)";
+  } else if (element.visibility === "partial") {
+    line += " (partially offscreen)";
+  }
+  if (element.truncated) line += ` (+${element.truncated} children)`;
+  return line;
+};
+
+// Render a snapshot as an indented outline for LLM prompts, e.g.
+//   - Button "Log in" [@e5] #loginButton
+// Unlabeled wrappers with a single child are collapsed into that child.
+export function formatSnapshotTree(snapshot: Snapshot): string {
+  const byRef = new Map<string, Element>();
+  for (const element of snapshot.elements) {
+    byRef.set(element.ref, element);
+  }
+
+  const lines: string[] = [];
+
+  const isWrapper = (element: Element): boolean =>
+    element.children.length === 1 &&
+    !element.label &&
+    !element.identifier &&
+    !element.value &&
+    element.enabled &&
+    element.visible &&
+    element.visibility === "onscreen";
+
+  const renderNode = (ref: string, depth: number) => {
+    let element = byRef.get(ref);
+    while (element && isWrapper(element)) {
+      element = byRef.get(element.children[0]);
+    }
+    if (!element) return;
+
+    lines.push(`${"  ".repeat(depth)}- ${describeElement(element)}`);
+
+    for (const childRef of element.children) {
+      renderNode(childRef, depth + 1);
+    }
+  };
+
+  renderNode(snapshot.tree, 0);
+
+  if (snapshot.keyboard?.visible) {
+    const returnKey = snapshot.keyboard.returnKey;
+    lines.push(
+      `[keyboard visible${returnKey ? `, return key "${returnKey}"` : ""}]`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// A matched element whose observable state differs between two snapshots
+export interface ElementChange {
+  ref: string;
+  previousRef: string;
+  type: string;
+  label: string | null;
+  identifier: string | null;
+  changes: {
+    label?: { from: string | null; to: string | null };
+    value?: { from: string | null; to: string | null };
+    enabled?: { from: boolean; to: boolean };
+    frame?: { from: Element["frame"]; to: Element["frame"] };
+  };
+}
+
+// Difference between the previous snapshot and the current one
+export interface SnapshotDiff {
+  timestamp: string;
+  since: string | null; // Timestamp of the previous snapshot
+  added: ElementSummary[];
+  removed: ElementSummary[];
+  changed: ElementChange[];
+  unchanged: number;
+}
+
+const summarize = ({ children: _children, ...summary }: Element): ElementSummary =>
+  summary;
+
+// Identity used to match elements across snapshots. Refs are positional, so
+// match on identifier when there is one, otherwise on type + label.
+const matchKey = (element: Element): string => {
+  if (element.identifier) {
+    return `${element.type}#${element.identifier}`;
+  }
+  return `${element.type}"${element.label ?? ""}`;
+};
+
+const sameFrame = (a: Element["frame"], b: Element["frame"]): boolean =>
+  a.x === b.x && a.y === b.y && a.w === b.w && a.h === b.h;
+
+// Compare two snapshots. Elements sharing a match key are paired in
+// document order.
+export function diffSnapshots(
+  previous: Snapshot | null,
+  current: Snapshot
+): SnapshotDiff {
+  const previousByKey = new Map<string, Element[]>();
+  for (const element of previous?.elements ?? []) {
+    const key = matchKey(element);
+    const bucket = previousByKey.get(key);
+    if (bucket) {
+      bucket.push(element);
+    } else {
+      previousByKey.set(key, [element]);
+    }
+  }
+
+  const added: ElementSummary[] = [];
+  const changed: ElementChange[] = [];
+  let unchanged = 0;
+
+  for (const element of current.elements) {
+    const before = previousByKey.get(matchKey(element))?.shift();
+    if (!before) {
+      added.push(summarize(element));
+      continue;
+    }
+
+    const changes: ElementChange["changes"] = {};
+    if (before.label !== element.label) {
+      changes.label = { from: before.label, to: element.label };
+    }
+    if (before.value !== element.value) {
+      changes.value = { from: before.value, to: element.value };
+    }
+    if (before.enabled !== element.enabled) {
+      changes.enabled = { from: before.enabled, to: element.enabled };
+    }
+    if (!sameFrame(before.frame, element.frame)) {
+      changes.frame = { from: before.frame, to: element.frame };
+    }
+
+    if (Object.keys(changes).length === 0) {
+      unchanged++;
+      continue;
+    }
+
+    changed.push({
+      ref: element.ref,
+      previousRef: before.ref,
+      type: element.type,
+      label: element.label,
+      identifier: element.identifier,
+      changes,
+    });
+  }
+
+  // Whatever was not paired off has disappeared
+  const removed: ElementSummary[] = [];
+  for (const bucket of previousByKey.values()) {
+    for (const element of bucket) {
+      removed.push(summarize(element));
+    }
+  }
+
+  return {
+    timestamp: current.timestamp,
+    since: previous?.timestamp ?? null,
+    added,
+    removed,
+    changed,
+    unchanged,
+  };
+}
+
+// Render a diff as compact text, one element per line:
+//   + added, - removed, ~ changed (with from -> to per field)
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  const lines: string[] = [];
+
+  for (const element of diff.added) {
+    lines.push(`+ ${describeElement(element)}`);
+  }
+  for (const element of diff.removed) {
+    lines.push(`- ${describeElement(element)}`);
+  }
+  for (const change of diff.changed) {
+    const fields = Object.entries(change.changes).map(
+      ([field, { from, to }]) =>
+        `${field} ${JSON.stringify(from)} -> ${JSON.stringify(to)}`
+    );
+    let line = `~ ${shortType(change.type)}`;
+    if (change.label) line += ` ${JSON.stringify(change.label)}`;
+    line += ` [${change.ref}]: ${fields.join(", ")}`;
+    lines.push(line);
+  }
+
+  if (lines.length === 0) {
+    lines.push("(no changes)");
+  }
+
+  return lines.join("\n");
+}
+
 // Store for ref resolution (element query info)
+//
+// Refs are tied to element identities, so an element that is still on screen
+// keeps its ref across snapshots and only new elements get new refs.
 export interface RefStore {
   refs: Map<string, RefMapEntry>;
 
+  // Incremented once per snapshot
+  generation: number;
+
   // Add a ref
   set(ref: string, entry: RefMapEntry): void;
 
   // Get ref info
   get(ref: string): RefMapEntry | undefined;
 
-  // Clear all refs
+  // Ref for an element identity, reusing the one issued earlier if any
+  allocate(identity: string): string;
+
+  // Identity a ref was issued for
+  identityOf(ref: string): string | undefined;
+
+  // Generation in which a ref was first issued
+  issuedIn(ref: string): number | undefined;
+
+  // Start a new generation (once per snapshot). Forgets refs that are not
+  // resolvable and whose element hasn't been seen for a while.
+  nextGeneration(): number;
+
+  // Clear resolvable refs (identities are kept so refs stay stable)
   clear(): void;
+
+  // Forget everything, including identities and the ref counter
+  reset(): void;
 }
 
+// Snapshots after which an unseen element's ref is forgotten, so the store
+// doesn't grow with every screen visited. An element coming back later gets
+// a new ref.
+const REF_RETENTION_GENERATIONS = 20;
+
 export function createRefStore(): RefStore {
   const refs = new Map<string, RefMapEntry>();
+  const refsByIdentity = new Map<string, string>();
+  const identitiesByRef = new Map<string, string>();
+  const issued = new Map<string, number>();
+  const lastSeen = new Map<string, number>();
+  let refCounter = 0;
 
   return {
     refs,
+    generation: 0,
     set(ref: string, entry: RefMapEntry) {
       refs.set(ref, entry);
     },
     get(ref: string) {
       return refs.get(ref);
     },
+    allocate(identity: string) {
+      const existing = refsByIdentity.get(identity);
+      if (existing) {
+        lastSeen.set(existing, this.generation);
+        return existing;
+      }
+
+      const ref = `@e${refCounter++}`;
+      refsByIdentity.set(identity, ref);
+      identitiesByRef.set(ref, identity);
+      issued.set(ref, this.generation);
+      lastSeen.set(ref, this.generation);
+      return ref;
+    },
+    identityOf(ref: string) {
+      return identitiesByRef.get(ref);
+    },
+    issuedIn(ref: string) {
+      return issued.get(ref);
+    },
+    nextGeneration() {
+      this.generation++;
+      for (const [ref, generation] of lastSeen) {
+        if (
+          this.generation - generation > REF_RETENTION_GENERATIONS &&
+          !refs.has(ref)
+        ) {
+          refsByIdentity.delete(identitiesByRef.get(ref)!);
+          identitiesByRef.delete(ref);
+          issued.delete(ref);
+          lastSeen.delete(ref);
+        }
+      }
+      return this.generation;
+    },
     clear() {
       refs.clear();
     },
+    reset() {
+      refs.clear();
+      refsByIdentity.clear();
+      identitiesByRef.clear();
+      issued.clear();
+      lastSeen.clear();
+      refCounter = 0;
+      this.generation = 0;
+    },
   };
 }
 
@@ -282,33 +1137,173 @@ export class RefResolutionError extends Error {
   constructor(
     message: string,
     public ref: string,
-    public suggestion?: string
+    public suggestion?: string,
+    public candidates?: string[] // Set when several elements matched
   ) {
     super(message);
     this.name = "RefResolutionError";
   }
 }
 
-// Type for element finder function (injected from WDA client)
-export type ElementFinder = (
-  using: string,
-  value: string
-) => Promise<{ ELEMENT: string } | null>;
+// Element rect as reported by WDA
+export interface ElementRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
-// Resolve a ref to a WDA element ID
-export async function resolveRef(
+// WDA lookups needed for ref resolution (implemented by WDAClient)
+export interface ElementFinder {
+  findElements(
+    using: string,
+    value: string
+  ): Promise<Array<{ ELEMENT: string }>>;
+  getElementRect(elementId: string): Promise<ElementRect | null>;
+}
+
+// Predicate condition selecting an element by identifier or label
+const queryCondition = (target: {
+  label?: string;
+  identifier?: string;
+}): string | null => {
+  if (target.identifier) return `name == ${quotePredicate(target.identifier)}`;
+  if (target.label) return `label == ${quotePredicate(target.label)}`;
+  return null;
+};
+
+// Frames from the source are rounded differently than rects; allow 1pt
+export const rectMatchesFrame = (
+  rect: ElementRect,
+  frame: NonNullable<RefMapEntry["frame"]>
+): boolean =>
+  Math.abs(rect.x - frame.x) <= 1 &&
+  Math.abs(rect.y - frame.y) <= 1 &&
+  Math.abs(rect.width - frame.w) <= 1 &&
+  Math.abs(rect.height - frame.h) <= 1;
+
+// Pick the element a ref was issued for among several query matches, using
+// the frame, ordinal and ancestors recorded at snapshot time
+async function pickCandidate(
   ref: string,
-  refStore: RefStore,
-  findElement: ElementFinder
+  entry: RefMapEntry,
+  candidates: Array<{ ELEMENT: string }>,
+  finder: ElementFinder,
+  primaryQuery: boolean
 ): Promise<string> {
-  // Validate ref format
-  if (!ref.startsWith("@e")) {
+  const rects = await Promise.all(
+    candidates.map((candidate) => finder.getElementRect(candidate.ELEMENT))
+  );
+
+  // Same frame as in the snapshot
+  if (entry.frame) {
+    const frame = entry.frame;
+    const byFrame = candidates.filter((_, i) => {
+      const rect = rects[i];
+      return rect !== null && rectMatchesFrame(rect, frame);
+    });
+    if (byFrame.length === 1) {
+      return byFrame[0].ELEMENT;
+    }
+  }
+
+  // Same position among matches, if the number of matches is unchanged
+  if (
+    primaryQuery &&
+    entry.ordinal !== undefined &&
+    entry.matches === candidates.length
+  ) {
+    return candidates[entry.ordinal].ELEMENT;
+  }
+
+  // Narrow down to descendants of the nearest labeled ancestor
+  const ancestor = entry.ancestors?.[0];
+  const ancestorCondition = ancestor && queryCondition(ancestor);
+  const elementCondition = queryCondition(entry);
+  if (ancestor && ancestorCondition && elementCondition) {
+    const chain =
+      `**/${ancestor.type}${classChainCondition(ancestorCondition)}` +
+      `/**/${entry.type}${classChainCondition(elementCondition)}`;
+    const scoped = await finder.findElements("class chain", chain);
+    if (scoped.length === 1) {
+      return scoped[0].ELEMENT;
+    }
+  }
+
+  const described = describeCandidates(candidates, rects);
+  throw new RefResolutionError(
+    `Multiple elements match ${ref} (${candidates.length} matches: ${described.join("; ")}). Run 'snapshot' for more specific refs.`,
+    ref,
+    "snapshot",
+    described
+  );
+}
+
+// Element IDs with their rects, for "multiple matches" errors
+const describeCandidates = (
+  candidates: Array<{ ELEMENT: string }>,
+  rects: Array<ElementRect | null>
+): string[] =>
+  candidates.map((candidate, i) => {
+    const rect = rects[i];
+    return rect
+      ? `${candidate.ELEMENT} at (${rect.x}, ${rect.y}) ${rect.width}x${rect.height}`
+      : candidate.ELEMENT;
+  });
+
+// Resolve a selector (e.g. Button[label="Log in"]) to a WDA element ID
+async function resolveSelector(
+  selector: string,
+  finder: ElementFinder
+): Promise<string> {
+  let query;
+  try {
+    query = compileSelector(parseSelector(selector));
+  } catch (err) {
+    if (err instanceof SelectorError) {
+      throw new RefResolutionError(
+        `Invalid ref or selector: ${selector}. ${err.message}. Use a ref like @e5 or a selector like Button[label="Log in"].`,
+        selector
+      );
+    }
+    throw err;
+  }
+
+  const candidates = await finder.findElements(query.using, query.value);
+  if (candidates.length === 1) {
+    return candidates[0].ELEMENT;
+  }
+  if (candidates.length === 0) {
     throw new RefResolutionError(
-      `Invalid ref format: ${ref}. Refs should start with @e (e.g., @e5)`,
-      ref
+      `No element matches ${selector}. Run 'snapshot' to see what is on screen.`,
+      selector,
+      "snapshot"
     );
   }
 
+  const rects = await Promise.all(
+    candidates.map((candidate) => finder.getElementRect(candidate.ELEMENT))
+  );
+  const described = describeCandidates(candidates, rects);
+  throw new RefResolutionError(
+    `Multiple elements match ${selector} (${candidates.length} matches: ${described.join("; ")}). Narrow it down, e.g. with :nth(0).`,
+    selector,
+    undefined,
+    described
+  );
+}
+
+// Resolve a ref (or selector) to a WDA element ID
+export async function resolveRef(
+  ref: string,
+  refStore: RefStore,
+  finder: ElementFinder
+): Promise<string> {
+  // Anything that isn't an @eN ref is a selector
+  if (isSelector(ref)) {
+    return resolveSelector(ref, finder);
+  }
+
   // Look up ref in store
   const entry = refStore.get(ref);
   if (!entry) {
@@ -319,31 +1314,36 @@ export async function resolveRef(
     );
   }
 
-  let element: { ELEMENT: string } | null = null;
+  const queries: Array<{ using: string; value: string }> = [];
 
   // Try to find by accessibility identifier (most stable)
   if (entry.identifier) {
-    element = await findElement("accessibility id", entry.identifier);
-    if (element) {
-      return element.ELEMENT;
-    }
+    queries.push({ using: "accessibility id", value: entry.identifier });
   }
 
   // Try to find by predicate (type + label)
   if (entry.label && entry.type) {
-    const predicate = `type == '${entry.type}' AND label == '${entry.label}'`;
-    element = await findElement("predicate string", predicate);
-    if (element) {
-      return element.ELEMENT;
-    }
+    queries.push({
+      using: "predicate string",
+      value: `type == ${quotePredicate(entry.type)} AND label == ${quotePredicate(entry.label)}`,
+    });
   }
 
   // Try by label only
   if (entry.label) {
-    const predicate = `label == '${entry.label}'`;
-    element = await findElement("predicate string", predicate);
-    if (element) {
-      return element.ELEMENT;
+    queries.push({
+      using: "predicate string",
+      value: `label == ${quotePredicate(entry.label)}`,
+    });
+  }
+
+  for (const [index, query] of queries.entries()) {
+    const candidates = await finder.findElements(query.using, query.value);
+    if (candidates.length === 1) {
+      return candidates[0].ELEMENT;
+    }
+    if (candidates.length > 1) {
+      return pickCandidate(ref, entry, candidates, finder, index === 0);
     }
   }
 
@@ -1,6 +1,9 @@
 import * as net from "net";
 import { type Command, type Response, ResponseSchema } from "./protocol.js";
 
+// How long to wait for the daemon's response, in milliseconds
+export const DEFAULT_COMMAND_TIMEOUT = 30000;
+
 export class SocketClient {
   private socketPath: string;
 
@@ -8,7 +11,10 @@ export class SocketClient {
     this.socketPath = socketPath;
   }
 
-  async sendCommand(command: Command, timeout: number = 30000): Promise<Response> {
+  async sendCommand(
+    command: Command,
+    timeout: number = DEFAULT_COMMAND_TIMEOUT
+  ): Promise<Response> {
     return new Promise((resolve, reject) => {
       const socket = net.createConnection(this.socketPath);
       let buffer = "";
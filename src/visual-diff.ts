@@ -0,0 +1,245 @@
+// Per-pixel screenshot comparison for UI regression checks.
+//
+// Colors are compared in YIQ space, so the threshold follows perceived
+// difference rather than raw RGB distance. Pixels that look like
+// anti-aliasing (an edge pixel between a darker and a brighter neighbour in
+// an otherwise flat area) are tolerated, since font smoothing and
+// sub-pixel layout shift them between otherwise identical renders.
+
+import type { PNGImage } from "./png.js";
+
+// Rectangle in image pixels
+export interface Region {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface CompareOptions {
+  threshold?: number; // 0 (exact) to 1 (anything goes), default 0.1
+  ignore?: Region[];
+}
+
+export interface CompareResult {
+  width: number;
+  height: number;
+  mismatchedPixels: number;
+  antialiasedPixels: number;
+  ignoredPixels: number;
+  mismatch: number; // Percentage of compared pixels that differ
+  diff: PNGImage; // Baseline faded to gray, differences highlighted
+}
+
+// Error class for images that can't be compared
+export class CompareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CompareError";
+  }
+}
+
+// Largest possible YIQ delta, between black and white
+const MAX_DELTA = 35215;
+
+// Diff image colors
+const MISMATCH_COLOR = [255, 0, 0];
+const ANTIALIAS_COLOR = [255, 200, 0];
+const IGNORE_COLOR = [120, 170, 255];
+
+// Channel value blended onto white by its alpha
+const blend = (value: number, alpha: number): number =>
+  255 + (value - 255) * alpha;
+
+const luma = (r: number, g: number, b: number): number =>
+  r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+
+// Squared YIQ distance between pixel i of a and pixel j of b, or only the
+// brightness difference (signed) with `brightnessOnly`
+const colorDelta = (
+  a: Buffer,
+  b: Buffer,
+  i: number,
+  j: number,
+  brightnessOnly = false
+): number => {
+  const alphaA = a[i + 3] / 255;
+  const alphaB = b[j + 3] / 255;
+  const r1 = blend(a[i], alphaA);
+  const g1 = blend(a[i + 1], alphaA);
+  const b1 = blend(a[i + 2], alphaA);
+  const r2 = blend(b[j], alphaB);
+  const g2 = blend(b[j + 1], alphaB);
+  const b2 = blend(b[j + 2], alphaB);
+
+  const y = luma(r1, g1, b1) - luma(r2, g2, b2);
+  if (brightnessOnly) return y;
+
+  const iDelta =
+    r1 * 0.59597799 - g1 * 0.2741761 - b1 * 0.32180189 -
+    (r2 * 0.59597799 - g2 * 0.2741761 - b2 * 0.32180189);
+  const qDelta =
+    r1 * 0.21147017 - g1 * 0.52261711 + b1 * 0.31114694 -
+    (r2 * 0.21147017 - g2 * 0.52261711 + b2 * 0.31114694);
+  return 0.5053 * y * y + 0.299 * iDelta * iDelta + 0.1957 * qDelta * qDelta;
+};
+
+// Whether a pixel has at least three identical neighbours, i.e. sits in a
+// flat area rather than on a gradient
+const hasManySiblings = (
+  image: PNGImage,
+  x: number,
+  y: number
+): boolean => {
+  const { width, height, data } = image;
+  const pos = (y * width + x) * 4;
+  let same = x === 0 || x === width - 1 || y === 0 || y === height - 1 ? 1 : 0;
+
+  for (let ny = Math.max(y - 1, 0); ny <= Math.min(y + 1, height - 1); ny++) {
+    for (let nx = Math.max(x - 1, 0); nx <= Math.min(x + 1, width - 1); nx++) {
+      if (nx === x && ny === y) continue;
+      const other = (ny * width + nx) * 4;
+      if (
+        data[pos] === data[other] &&
+        data[pos + 1] === data[other + 1] &&
+        data[pos + 2] === data[other + 2] &&
+        data[pos + 3] === data[other + 3]
+      ) {
+        same++;
+      }
+      if (same > 2) return true;
+    }
+  }
+  return false;
+};
+
+// Whether pixel (x, y) of `image` looks like anti-aliasing: it lies between
+// its darkest and brightest neighbour, and one of those sits in a flat area
+// in both images
+const isAntialiased = (
+  image: PNGImage,
+  other: PNGImage,
+  x: number,
+  y: number
+): boolean => {
+  const { width, height, data } = image;
+  const pos = (y * width + x) * 4;
+  let zeroes = x === 0 || x === width - 1 || y === 0 || y === height - 1 ? 1 : 0;
+  let min = 0;
+  let max = 0;
+  let minX = 0;
+  let minY = 0;
+  let maxX = 0;
+  let maxY = 0;
+
+  for (let ny = Math.max(y - 1, 0); ny <= Math.min(y + 1, height - 1); ny++) {
+    for (let nx = Math.max(x - 1, 0); nx <= Math.min(x + 1, width - 1); nx++) {
+      if (nx === x && ny === y) continue;
+      const delta = colorDelta(data, data, pos, (ny * width + nx) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) return false;
+      } else if (delta < min) {
+        min = delta;
+        minX = nx;
+        minY = ny;
+      } else if (delta > max) {
+        max = delta;
+        maxX = nx;
+        maxY = ny;
+      }
+    }
+  }
+
+  if (min === 0 || max === 0) return false;
+  return (
+    (hasManySiblings(image, minX, minY) && hasManySiblings(other, minX, minY)) ||
+    (hasManySiblings(image, maxX, maxY) && hasManySiblings(other, maxX, maxY))
+  );
+};
+
+// Compare two images of the same size
+export function compareImages(
+  baseline: PNGImage,
+  actual: PNGImage,
+  options: CompareOptions = {}
+): CompareResult {
+  if (baseline.width !== actual.width || baseline.height !== actual.height) {
+    throw new CompareError(
+      `Screenshot is ${actual.width}x${actual.height} but the baseline is ${baseline.width}x${baseline.height}`
+    );
+  }
+
+  const { width, height } = baseline;
+  const threshold = options.threshold ?? 0.1;
+  const maxDelta = MAX_DELTA * threshold * threshold;
+
+  // Mask of ignored pixels
+  const ignored = new Uint8Array(width * height);
+  for (const region of options.ignore ?? []) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.w));
+    const bottom = Math.min(height, Math.ceil(region.y + region.h));
+    for (let y = top; y < bottom; y++) {
+      ignored.fill(1, y * width + left, y * width + Math.max(left, right));
+    }
+  }
+
+  const diff = Buffer.alloc(width * height * 4);
+  let mismatchedPixels = 0;
+  let antialiasedPixels = 0;
+  let ignoredPixels = 0;
+
+  const paint = (pos: number, color: number[]) => {
+    diff[pos] = color[0];
+    diff[pos + 1] = color[1];
+    diff[pos + 2] = color[2];
+    diff[pos + 3] = 255;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const pos = index * 4;
+
+      // Faded grayscale of the baseline as the backdrop
+      const alpha = baseline.data[pos + 3] / 255;
+      const gray = blend(
+        luma(baseline.data[pos], baseline.data[pos + 1], baseline.data[pos + 2]),
+        alpha * 0.1
+      );
+
+      if (ignored[index]) {
+        ignoredPixels++;
+        paint(pos, IGNORE_COLOR.map((channel) => (channel + gray) / 2));
+        continue;
+      }
+
+      const delta = colorDelta(baseline.data, actual.data, pos, pos);
+      if (delta <= maxDelta) {
+        paint(pos, [gray, gray, gray]);
+      } else if (
+        isAntialiased(baseline, actual, x, y) ||
+        isAntialiased(actual, baseline, x, y)
+      ) {
+        antialiasedPixels++;
+        paint(pos, ANTIALIAS_COLOR);
+      } else {
+        mismatchedPixels++;
+        paint(pos, MISMATCH_COLOR);
+      }
+    }
+  }
+
+  const compared = width * height - ignoredPixels;
+  return {
+    width,
+    height,
+    mismatchedPixels,
+    antialiasedPixels,
+    ignoredPixels,
+    mismatch: compared > 0 ? (mismatchedPixels / compared) * 100 : 0,
+    diff: { width, height, data: diff },
+  };
+}
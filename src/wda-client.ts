@@ -1,3 +1,5 @@
+import type { PointerSequence } from "./protocol.js";
+
 export interface WDAStatus {
   ready: boolean;
   message?: string;
@@ -11,6 +13,13 @@ export interface WDAStatus {
   };
 }
 
+// Window size in points for the current orientation
+export interface ScreenSize {
+  width: number;
+  height: number;
+  orientation: "portrait" | "landscape";
+}
+
 export interface WDASession {
   sessionId: string;
   capabilities: Record<string, unknown>;
@@ -19,6 +28,7 @@ export interface WDASession {
 export class WDAClient {
   private baseUrl: string;
   private sessionId: string | null = null;
+  private screenSize: ScreenSize | null = null; // Cached per session
 
   constructor(baseUrl: string = "http://localhost:8100") {
     this.baseUrl = baseUrl;
@@ -77,6 +87,7 @@ export class WDAClient {
       }
     );
     this.sessionId = response.value.sessionId;
+    this.screenSize = null;
     return this.sessionId;
   }
 
@@ -89,6 +100,7 @@ export class WDAClient {
         // Ignore errors when deleting session
       }
       this.sessionId = null;
+      this.screenSize = null;
     }
   }
 
@@ -126,6 +138,68 @@ export class WDAClient {
     return Buffer.from(base64, "base64");
   }
 
+  // Get window size in points
+  async getWindowSize(): Promise<{ width: number; height: number }> {
+    const sessionId = await this.ensureSession();
+    const response = await this.request<{
+      value: { width: number; height: number };
+    }>("GET", `/session/${sessionId}/window/size`);
+    return response.value;
+  }
+
+  // Get device orientation, e.g. PORTRAIT or LANDSCAPE
+  async getOrientation(): Promise<string> {
+    const sessionId = await this.ensureSession();
+    const response = await this.request<{ value: string }>(
+      "GET",
+      `/session/${sessionId}/orientation`
+    );
+    return response.value;
+  }
+
+  // Window size for the current orientation. Cached for the session and
+  // fetched again when the orientation changes.
+  async getScreenSize(): Promise<ScreenSize> {
+    const orientation = /LANDSCAPE/i.test(await this.getOrientation())
+      ? "landscape"
+      : "portrait";
+    if (this.screenSize?.orientation === orientation) {
+      return this.screenSize;
+    }
+
+    let { width, height } = await this.getWindowSize();
+    // Some WDA versions report the portrait size in landscape
+    if ((orientation === "landscape") !== width > height) {
+      [width, height] = [height, width];
+    }
+    this.screenSize = { width, height, orientation };
+    return this.screenSize;
+  }
+
+  // Status bar height in points from WDA's screen info; null when WDA
+  // doesn't report one
+  async getStatusBarHeight(): Promise<number | null> {
+    const sessionId = await this.ensureSession();
+    try {
+      const response = await this.request<{
+        value: { statusBarSize?: { width: number; height: number } };
+      }>("GET", `/session/${sessionId}/wda/screen`);
+      return response.value.statusBarSize?.height || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Get screenshot of a single element as PNG Buffer
+  async elementScreenshot(elementId: string): Promise<Buffer> {
+    const sessionId = await this.ensureSession();
+    const response = await this.request<{ value: string }>(
+      "GET",
+      `/session/${sessionId}/element/${elementId}/screenshot`
+    );
+    return Buffer.from(response.value, "base64");
+  }
+
   // Find element by various strategies
   async findElement(
     using: string,
@@ -160,6 +234,69 @@ export class WDAClient {
     }
   }
 
+  // Find elements inside an element
+  async findChildElements(
+    elementId: string,
+    using: string,
+    value: string
+  ): Promise<Array<{ ELEMENT: string }>> {
+    const sessionId = await this.ensureSession();
+    try {
+      const response = await this.request<{
+        value: Array<{ ELEMENT: string }>;
+      }>("POST", `/session/${sessionId}/element/${elementId}/elements`, {
+        using,
+        value,
+      });
+      return response.value;
+    } catch {
+      return [];
+    }
+  }
+
+  // Move a picker wheel one item forward or back. `offset` is how far from
+  // the wheel's center to tap, as a fraction of its height.
+  async selectPickerWheel(
+    elementId: string,
+    order: "next" | "previous",
+    offset: number = 0.15
+  ): Promise<void> {
+    const sessionId = await this.ensureSession();
+    await this.request(
+      "POST",
+      `/session/${sessionId}/wda/pickerwheel/${elementId}/select`,
+      { order, offset }
+    );
+  }
+
+  // Get element rect (position and size in points)
+  async getElementRect(
+    elementId: string
+  ): Promise<{ x: number; y: number; width: number; height: number } | null> {
+    const sessionId = await this.ensureSession();
+    try {
+      const response = await this.request<{
+        value: { x: number; y: number; width: number; height: number };
+      }>("GET", `/session/${sessionId}/element/${elementId}/rect`);
+      return response.value;
+    } catch {
+      return null;
+    }
+  }
+
+  // Get an element attribute, e.g. "hittable"
+  async getElementAttribute(
+    elementId: string,
+    name: string
+  ): Promise<unknown> {
+    const sessionId = await this.ensureSession();
+    const response = await this.request<{ value: unknown }>(
+      "GET",
+      `/session/${sessionId}/element/${elementId}/attribute/${name}`
+    );
+    return response.value;
+  }
+
   // Click element
   async click(elementId: string): Promise<void> {
     const sessionId = await this.ensureSession();
@@ -202,10 +339,28 @@ export class WDAClient {
     }
   }
 
-  // Accept alert
-  async acceptAlert(): Promise<void> {
+  // Get the button labels of the current alert, in display order
+  async getAlertButtons(): Promise<string[]> {
     const sessionId = await this.ensureSession();
-    await this.request("POST", `/session/${sessionId}/alert/accept`);
+    try {
+      const response = await this.request<{ value: string[] }>(
+        "GET",
+        `/session/${sessionId}/wda/alert/buttons`
+      );
+      return response.value ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Accept alert, or tap the button with the given label
+  async acceptAlert(button?: string): Promise<void> {
+    const sessionId = await this.ensureSession();
+    await this.request(
+      "POST",
+      `/session/${sessionId}/alert/accept`,
+      button === undefined ? undefined : { name: button }
+    );
   }
 
   // Dismiss alert
@@ -214,6 +369,37 @@ export class WDAClient {
     await this.request("POST", `/session/${sessionId}/alert/dismiss`);
   }
 
+  // Press a hardware button: home, volumeUp or volumeDown
+  async pressButton(name: "home" | "volumeUp" | "volumeDown"): Promise<void> {
+    const sessionId = await this.ensureSession();
+    await this.request("POST", `/session/${sessionId}/wda/pressButton`, {
+      name,
+    });
+  }
+
+  // Lock the device
+  async lock(): Promise<void> {
+    const sessionId = await this.ensureSession();
+    await this.request("POST", `/session/${sessionId}/wda/lock`);
+  }
+
+  // Type keys into whatever has keyboard focus
+  async sendKeys(keys: string[]): Promise<void> {
+    const sessionId = await this.ensureSession();
+    await this.request("POST", `/session/${sessionId}/wda/keys`, {
+      value: keys,
+    });
+  }
+
+  // Dismiss the software keyboard, tapping one of `keyNames` if the
+  // keyboard has no dismiss key of its own
+  async dismissKeyboard(keyNames: string[] = []): Promise<void> {
+    const sessionId = await this.ensureSession();
+    await this.request("POST", `/session/${sessionId}/wda/keyboard/dismiss`, {
+      keyNames,
+    });
+  }
+
   // Launch app
   async launchApp(bundleId: string): Promise<void> {
     const sessionId = await this.ensureSession();
@@ -256,53 +442,80 @@ export class WDAClient {
     );
   }
 
-  // Swipe on screen (without element)
-  async swipeScreen(
-    direction: "up" | "down" | "left" | "right"
-  ): Promise<void> {
+  // Tap at screen coordinates (points)
+  async tapAt(x: number, y: number): Promise<void> {
     const sessionId = await this.ensureSession();
-    // Use touch actions for screen swipe
-    const windowSize = { width: 390, height: 844 }; // Default iPhone size
-
-    let fromX: number, fromY: number, toX: number, toY: number;
-    const centerX = windowSize.width / 2;
-    const centerY = windowSize.height / 2;
-    const offset = 200;
-
-    switch (direction) {
-      case "up":
-        fromX = centerX;
-        fromY = centerY + offset;
-        toX = centerX;
-        toY = centerY - offset;
-        break;
-      case "down":
-        fromX = centerX;
-        fromY = centerY - offset;
-        toX = centerX;
-        toY = centerY + offset;
-        break;
-      case "left":
-        fromX = centerX + offset;
-        fromY = centerY;
-        toX = centerX - offset;
-        toY = centerY;
-        break;
-      case "right":
-        fromX = centerX - offset;
-        fromY = centerY;
-        toX = centerX + offset;
-        toY = centerY;
-        break;
-    }
+    await this.request("POST", `/session/${sessionId}/wda/tap`, { x, y });
+  }
 
+  // Swipe between two screen coordinates
+  async swipeBetween(
+    from: { x: number; y: number },
+    to: { x: number; y: number }
+  ): Promise<void> {
+    const sessionId = await this.ensureSession();
     await this.request("POST", `/session/${sessionId}/wda/touch/perform`, {
       actions: [
-        { action: "press", options: { x: fromX, y: fromY } },
+        { action: "press", options: { x: from.x, y: from.y } },
         { action: "wait", options: { ms: 100 } },
-        { action: "moveTo", options: { x: toX, y: toY } },
+        { action: "moveTo", options: { x: to.x, y: to.y } },
         { action: "release" },
       ],
     });
   }
+
+  // Perform W3C actions (coordinates in points)
+  async performActions(actions: PointerSequence[]): Promise<void> {
+    const sessionId = await this.ensureSession();
+    await this.request("POST", `/session/${sessionId}/actions`, { actions });
+  }
+
+  // Swipe across the screen. Starts at `from` (default: the center) and
+  // covers `distance` as a fraction of the screen along the swipe axis
+  // (default 0.5), at `velocity` points per second (default 1500). The end
+  // point is kept inside the screen. Returns the points used.
+  async swipeScreen(
+    direction: "up" | "down" | "left" | "right",
+    options: {
+      from?: { x: number; y: number };
+      distance?: number;
+      velocity?: number;
+    } = {}
+  ): Promise<{ from: { x: number; y: number }; to: { x: number; y: number } }> {
+    const screen = await this.getScreenSize();
+    const from = options.from ?? { x: screen.width / 2, y: screen.height / 2 };
+    const fraction = options.distance ?? 0.5;
+    const velocity = options.velocity ?? 1500;
+
+    const vertical = direction === "up" || direction === "down";
+    const length = fraction * (vertical ? screen.height : screen.width);
+    const sign = direction === "up" || direction === "left" ? -1 : 1;
+    const clamp = (value: number, max: number) =>
+      Math.min(Math.max(value, 1), max - 1);
+    const to = vertical
+      ? { x: from.x, y: clamp(from.y + sign * length, screen.height) }
+      : { x: clamp(from.x + sign * length, screen.width), y: from.y };
+
+    const travelled = Math.hypot(to.x - from.x, to.y - from.y);
+    await this.performActions([
+      {
+        type: "pointer",
+        id: "finger1",
+        parameters: { pointerType: "touch" },
+        actions: [
+          { type: "pointerMove", x: from.x, y: from.y, duration: 0 },
+          { type: "pointerDown" },
+          { type: "pause", duration: 50 },
+          {
+            type: "pointerMove",
+            x: to.x,
+            y: to.y,
+            duration: Math.max(50, Math.round((travelled / velocity) * 1000)),
+          },
+          { type: "pointerUp" },
+        ],
+      },
+    ]);
+    return { from, to };
+  }
 }
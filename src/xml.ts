@@ -0,0 +1,344 @@
+// Dependency-free XML parser for WDA page source.
+//
+// Handles everything WDA (or an app's accessibility strings) can put in a
+// source document: the XML declaration and processing instructions, DOCTYPE,
+// comments, CDATA sections, named entities and numeric character references
+// (`&#10;`, `&#x1F600;`). Text content is validated but not kept, since WDA
+// puts everything of interest in attributes. Malformed input throws an
+// XMLParseError with the line and column of the problem.
+
+// Parsed element
+export interface XMLNode {
+  tag: string;
+  attributes: Record<string, string>;
+  children: XMLNode[];
+}
+
+// Error for malformed XML, with a 1-based position
+export class XMLParseError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+    public column: number
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "XMLParseError";
+  }
+}
+
+// The five predefined entities
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+// Character codes used while scanning
+const LT = 0x3c; // <
+const GT = 0x3e; // >
+const SLASH = 0x2f; // /
+const EQUALS = 0x3d; // =
+const QUOTE = 0x22; // "
+const APOS = 0x27; // '
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+
+const isWhitespace = (code: number): boolean =>
+  code === 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+
+// Name characters are anything that can't end a name; the first character
+// additionally can't be a digit, '-' or '.'
+const isNameChar = (code: number): boolean =>
+  !isWhitespace(code) &&
+  code !== LT &&
+  code !== GT &&
+  code !== SLASH &&
+  code !== EQUALS &&
+  code !== QUOTE &&
+  code !== APOS &&
+  !Number.isNaN(code);
+
+const isNameStart = (code: number): boolean =>
+  isNameChar(code) &&
+  !(code >= 0x30 && code <= 0x39) && // 0-9
+  code !== 0x2d && // -
+  code !== 0x2e; // .
+
+// Code points allowed in an XML 1.0 document
+const isXMLChar = (code: number): boolean =>
+  code === 0x09 ||
+  code === 0x0a ||
+  code === 0x0d ||
+  (code >= 0x20 && code <= 0xd7ff) ||
+  (code >= 0xe000 && code <= 0xfffd) ||
+  (code >= 0x10000 && code <= 0x10ffff);
+
+// Parse an XML document into its root element
+export function parseXML(xml: string): XMLNode {
+  const length = xml.length;
+  const stack: XMLNode[] = [];
+  let root: XMLNode | null = null;
+  let i = 0;
+
+  // Line/column are only needed for errors, so compute them lazily
+  const fail = (message: string, at: number = i): never => {
+    let line = 1;
+    let lineStart = 0;
+    for (let j = xml.indexOf("\n"); j !== -1 && j < at; j = xml.indexOf("\n", j + 1)) {
+      line++;
+      lineStart = j + 1;
+    }
+    throw new XMLParseError(message, line, Math.min(at, length) - lineStart + 1);
+  };
+
+  const skipWhitespace = () => {
+    while (i < length && isWhitespace(xml.charCodeAt(i))) i++;
+  };
+
+  const readName = (what: string): string => {
+    const start = i;
+    if (!isNameStart(xml.charCodeAt(i))) {
+      fail(`Expected ${what} name`);
+    }
+    i++;
+    while (i < length && isNameChar(xml.charCodeAt(i))) i++;
+    return xml.slice(start, i);
+  };
+
+  // Decode entity and character references in xml[start, end). With
+  // `normalize`, literal whitespace becomes spaces (attribute value
+  // normalization, XML 1.0 section 3.3.3) while referenced characters such
+  // as &#10; are kept.
+  const decode = (start: number, end: number, normalize = false): string => {
+    const literal = (from: number, to: number): string => {
+      const text = xml.slice(from, to);
+      return normalize ? text.replace(/\r\n?|[\t\n]/g, " ") : text;
+    };
+
+    let amp = xml.indexOf("&", start);
+    if (amp === -1 || amp >= end) return literal(start, end);
+
+    const parts: string[] = [];
+    let last = start;
+    while (amp !== -1 && amp < end) {
+      const semi = xml.indexOf(";", amp + 1);
+      if (semi === -1 || semi >= end) {
+        fail("Unterminated entity reference", amp);
+      }
+      parts.push(literal(last, amp));
+
+      const name = xml.slice(amp + 1, semi);
+      if (name.charCodeAt(0) === 0x23) {
+        // Character reference: &#NNN; or &#xHHH;
+        const hex = name.charCodeAt(1) === 0x78; // x
+        const digits = name.slice(hex ? 2 : 1);
+        const valid = hex ? /^[0-9a-fA-F]+$/.test(digits) : /^[0-9]+$/.test(digits);
+        const code = valid ? parseInt(digits, hex ? 16 : 10) : NaN;
+        if (!isXMLChar(code)) {
+          fail(`Invalid character reference &${name};`, amp);
+        }
+        parts.push(String.fromCodePoint(code));
+      } else {
+        const value = NAMED_ENTITIES[name];
+        if (value === undefined) {
+          fail(`Undefined entity &${name};`, amp);
+        }
+        parts.push(value);
+      }
+
+      last = semi + 1;
+      amp = xml.indexOf("&", last);
+    }
+    parts.push(literal(last, end));
+    return parts.join("");
+  };
+
+  // Character data between markup: only whitespace is allowed outside the
+  // root element, and references must be well-formed everywhere
+  const checkText = (start: number, end: number) => {
+    if (stack.length === 0) {
+      for (let j = start; j < end; j++) {
+        if (!isWhitespace(xml.charCodeAt(j))) {
+          fail("Text outside the root element", j);
+        }
+      }
+      return;
+    }
+    decode(start, end);
+  };
+
+  const parseAttributeValue = (): string => {
+    const quote = xml.charCodeAt(i);
+    if (quote !== QUOTE && quote !== APOS) {
+      fail("Expected quoted attribute value");
+    }
+    const start = i + 1;
+    const end = xml.indexOf(xml[i], start);
+    if (end === -1) {
+      fail("Unterminated attribute value");
+    }
+    const lt = xml.indexOf("<", start);
+    if (lt !== -1 && lt < end) {
+      fail("'<' is not allowed in attribute values", lt);
+    }
+    i = end + 1;
+
+    const normalize = /[\t\n\r]/.test(xml.slice(start, end));
+    return decode(start, end, normalize);
+  };
+
+  const parseStartTag = () => {
+    const tagStart = i;
+    i++; // skip <
+    const node: XMLNode = {
+      tag: readName("element"),
+      attributes: {},
+      children: [],
+    };
+
+    for (;;) {
+      const hadSpace = isWhitespace(xml.charCodeAt(i));
+      skipWhitespace();
+      if (i >= length) {
+        fail(`Unterminated start tag <${node.tag}>`, tagStart);
+      }
+
+      const code = xml.charCodeAt(i);
+      if (code === GT || code === SLASH) break;
+      if (!hadSpace) {
+        fail("Expected whitespace between attributes");
+      }
+
+      const nameStart = i;
+      const name = readName("attribute");
+      skipWhitespace();
+      if (xml.charCodeAt(i) !== EQUALS) {
+        fail(`Expected '=' after attribute ${name}`);
+      }
+      i++;
+      skipWhitespace();
+      const value = parseAttributeValue();
+
+      if (Object.prototype.hasOwnProperty.call(node.attributes, name)) {
+        fail(`Duplicate attribute ${name}`, nameStart);
+      }
+      node.attributes[name] = value;
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else if (root) {
+      fail("Multiple root elements", tagStart);
+    } else {
+      root = node;
+    }
+
+    if (xml.charCodeAt(i) === SLASH) {
+      // Self-closing tag
+      if (xml.charCodeAt(i + 1) !== GT) {
+        fail("Expected '>' after '/'", i + 1);
+      }
+      i += 2;
+    } else {
+      i++; // skip >
+      stack.push(node);
+    }
+  };
+
+  const parseEndTag = () => {
+    const tagStart = i;
+    i += 2; // skip </
+    const tag = readName("element");
+    skipWhitespace();
+    if (xml.charCodeAt(i) !== GT) {
+      fail(`Expected '>' to close </${tag}>`);
+    }
+    i++;
+
+    const open = stack.pop();
+    if (!open) {
+      fail(`Unexpected closing tag </${tag}>`, tagStart);
+    } else if (open.tag !== tag) {
+      fail(`Mismatched closing tag </${tag}>, expected </${open.tag}>`, tagStart);
+    }
+  };
+
+  // Skip <!DOCTYPE ...>, including an internal subset in brackets
+  const skipDoctype = () => {
+    const start = i;
+    let depth = 0;
+    i += 9; // skip <!DOCTYPE
+    while (i < length) {
+      const code = xml.charCodeAt(i);
+      if (code === QUOTE || code === APOS) {
+        const end = xml.indexOf(xml[i], i + 1);
+        if (end === -1) break;
+        i = end + 1;
+        continue;
+      }
+      if (code === OPEN_BRACKET) depth++;
+      if (code === CLOSE_BRACKET) depth--;
+      i++;
+      if (code === GT && depth === 0) return;
+    }
+    fail("Unterminated DOCTYPE", start);
+  };
+
+  // Skip a construct from its opening marker to the given terminator
+  const skipUntil = (terminator: string, what: string) => {
+    const end = xml.indexOf(terminator, i);
+    if (end === -1) {
+      fail(`Unterminated ${what}`);
+    }
+    i = end + terminator.length;
+  };
+
+  // Byte order mark
+  if (xml.charCodeAt(0) === 0xfeff) i = 1;
+
+  while (i < length) {
+    const lt = xml.indexOf("<", i);
+    const textEnd = lt === -1 ? length : lt;
+    if (textEnd > i) {
+      checkText(i, textEnd);
+    }
+    if (lt === -1) break;
+    i = lt;
+
+    if (xml.startsWith("<!--", i)) {
+      const start = i;
+      i += 4;
+      const end = xml.indexOf("--", i);
+      if (end === -1) fail("Unterminated comment", start);
+      if (xml.charCodeAt(end + 2) !== GT) {
+        fail("'--' is not allowed inside comments", end);
+      }
+      i = end + 3;
+    } else if (xml.startsWith("<![CDATA[", i)) {
+      if (stack.length === 0) {
+        fail("CDATA section outside the root element");
+      }
+      skipUntil("]]>", "CDATA section");
+    } else if (xml.startsWith("<?", i)) {
+      skipUntil("?>", "processing instruction");
+    } else if (xml.startsWith("<!DOCTYPE", i)) {
+      if (root) fail("DOCTYPE after the root element");
+      skipDoctype();
+    } else if (xml.charCodeAt(i + 1) === SLASH) {
+      parseEndTag();
+    } else {
+      parseStartTag();
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`Unclosed element <${stack[stack.length - 1].tag}>`, length);
+  }
+  if (!root) {
+    fail("No root element", length);
+  }
+
+  return root!;
+}
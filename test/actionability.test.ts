@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ActionabilityError,
+  ensureActionable,
+  waitForActionable,
+  type ActionabilityCheck,
+  type ActionabilityClient,
+} from "../src/actionability.js";
+import type { ElementRect } from "../src/snapshot.js";
+
+const BUTTON: ElementRect = { x: 20, y: 100, width: 120, height: 44 };
+
+interface FakeState {
+  enabled?: unknown;
+  hittable?: unknown;
+  rects?: Array<ElementRect | null>;
+}
+
+// Client reporting a fixed element state; `rects` are returned one per poll,
+// the last one repeating
+const fakeClient = (
+  state: FakeState = {}
+): ActionabilityClient & { polls: number } => {
+  const rects = state.rects ?? [BUTTON];
+  const client = {
+    polls: 0,
+    async getElementAttribute(_elementId: string, name: string) {
+      if (name === "enabled") return state.enabled ?? true;
+      if (name === "hittable") return state.hittable ?? true;
+      return undefined;
+    },
+    async getElementRect() {
+      return rects[Math.min(client.polls++, rects.length - 1)];
+    },
+    async getScreenSize() {
+      return { width: 390, height: 844, orientation: "portrait" as const };
+    },
+  };
+  return client;
+};
+
+const failsCheck =
+  (check: ActionabilityCheck, reason: RegExp) => (err: unknown) => {
+    assert.ok(err instanceof ActionabilityError);
+    assert.equal(err.check, check);
+    assert.equal(err.ref, "@e5");
+    assert.match(err.message, /^@e5 is not actionable after 50ms/);
+    assert.match(err.message, reason);
+    return true;
+  };
+
+const wait = (client: ActionabilityClient) =>
+  waitForActionable(client, "element-1", "@e5", { timeout: 50, interval: 10 });
+
+test("returns the rect once it is the same in two polls", async () => {
+  const client = fakeClient();
+  assert.deepEqual(await wait(client), BUTTON);
+  assert.equal(client.polls, 2);
+});
+
+test("waits for an element to stop moving", async () => {
+  const moved = { ...BUTTON, y: 90 };
+  const client = fakeClient({ rects: [BUTTON, moved, moved] });
+  assert.deepEqual(await wait(client), moved);
+});
+
+test("names the check that kept failing", async () => {
+  await assert.rejects(
+    wait(fakeClient({ enabled: "false" })),
+    failsCheck("enabled", /it is disabled/)
+  );
+  await assert.rejects(
+    wait(fakeClient({ rects: [{ ...BUTTON, width: 0 }] })),
+    failsCheck("frame", /its frame is empty/)
+  );
+  await assert.rejects(
+    wait(fakeClient({ rects: [null] })),
+    failsCheck("frame", /could not be read/)
+  );
+  await assert.rejects(
+    wait(fakeClient({ rects: [{ ...BUTTON, y: 900 }] })),
+    failsCheck("in-window", /outside the 390x844 window/)
+  );
+  await assert.rejects(
+    wait(fakeClient({ hittable: false })),
+    failsCheck("hittable", /covered by another view/)
+  );
+
+  // A new frame on every poll
+  const rects = Array.from({ length: 100 }, (_, i) => ({ ...BUTTON, y: i }));
+  await assert.rejects(
+    wait(fakeClient({ rects })),
+    failsCheck("stable", /still moving/)
+  );
+});
+
+test("keeps polling until the timeout", async () => {
+  const client = fakeClient({ enabled: false });
+  const started = Date.now();
+  await assert.rejects(
+    waitForActionable(client, "element-1", "@e5", {
+      timeout: 200,
+      interval: 20,
+    }),
+    /after 200ms/
+  );
+  assert.ok(Date.now() - started >= 150);
+  assert.ok(client.polls >= 5);
+});
+
+test("recovers when a check starts passing in time", async () => {
+  let enabled = false;
+  const client = fakeClient();
+  client.getElementAttribute = async (_elementId, name) =>
+    name === "enabled" ? enabled : true;
+  setTimeout(() => (enabled = true), 30);
+  const rect = await waitForActionable(client, "element-1", "@e5", {
+    timeout: 1000,
+    interval: 10,
+  });
+  assert.deepEqual(rect, BUTTON);
+});
+
+test("force skips the checks", async () => {
+  const client = fakeClient({ enabled: false, hittable: false });
+  await ensureActionable(client, "element-1", "@e5", { force: true });
+  assert.equal(client.polls, 0);
+
+  await assert.rejects(
+    ensureActionable(client, "element-1", "@e5", { timeout: 50 }),
+    ActionabilityError
+  );
+});
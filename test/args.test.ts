@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseArgs } from "../src/args.js";
+
+test("boolean flags don't swallow the positional after them", () => {
+  assert.deepEqual(parseArgs(["tap", "--force", "@e5"]), {
+    command: "tap",
+    positional: ["@e5"],
+    options: { force: "true" },
+  });
+  assert.deepEqual(
+    parseArgs(["snapshot", "--interactive", "@e12", "--diff"]),
+    {
+      command: "snapshot",
+      positional: ["@e12"],
+      options: { interactive: "true", diff: "true" },
+    }
+  );
+  assert.deepEqual(parseArgs(["tap", "--no-auto-alerts", "#login"]), {
+    command: "tap",
+    positional: ["#login"],
+    options: { "no-auto-alerts": "true" },
+  });
+});
+
+test("other options take the next argument as their value", () => {
+  assert.deepEqual(
+    parseArgs(["wait", "@e3", "--timeout", "2000", "--format"]),
+    {
+      command: "wait",
+      positional: ["@e3"],
+      options: { timeout: "2000", format: "true" },
+    }
+  );
+  assert.deepEqual(parseArgs(["tap", "--timeout", "--force", "@e5"]), {
+    command: "tap",
+    positional: ["@e5"],
+    options: { timeout: "true", force: "true" },
+  });
+  assert.equal(parseArgs([]).command, "help");
+});
@@ -0,0 +1,14 @@
+// Shared helpers for the test suite. Tests run from the compiled output in
+// dist-test/, so fixtures are located relative to the package root.
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+export const fixturePath = (name: string): string =>
+  path.join(root, "test", "fixtures", name);
+
+export const readFixture = (name: string): string =>
+  fs.readFileSync(fixturePath(name), "utf-8");
@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cropImage, scaleImage } from "../src/image.js";
+import { encodeJPEG } from "../src/jpeg.js";
+import type { PNGImage } from "../src/png.js";
+
+// Image whose pixels encode their own coordinates
+const coordinates = (width: number, height: number): PNGImage => {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([x, y, 0, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const pixelAt = (image: PNGImage, x: number, y: number): number[] => {
+  const i = (y * image.width + x) * 4;
+  return [...image.data.subarray(i, i + 4)];
+};
+
+// Markers of a JPEG file up to the scan, with their payloads
+const jpegSegments = (file: Buffer) => {
+  const segments: Array<{ marker: number; data: Buffer }> = [];
+  let pos = 2;
+  for (;;) {
+    assert.equal(file[pos], 0xff, `marker at ${pos}`);
+    const marker = file[pos + 1];
+    const length = file.readUInt16BE(pos + 2);
+    segments.push({ marker, data: file.subarray(pos + 4, pos + 2 + length) });
+    pos += 2 + length;
+    if (marker === 0xda) return { segments, scan: file.subarray(pos) };
+  }
+};
+
+test("crops a region, clipped to the image", () => {
+  const image = coordinates(20, 10);
+  const cropped = cropImage(image, { x: 5, y: 2, w: 4, h: 3 });
+  assert.equal(cropped.width, 4);
+  assert.equal(cropped.height, 3);
+  assert.deepEqual(pixelAt(cropped, 0, 0), [5, 2, 0, 255]);
+  assert.deepEqual(pixelAt(cropped, 3, 2), [8, 4, 0, 255]);
+
+  const clipped = cropImage(image, { x: 15, y: -5, w: 10, h: 8 });
+  assert.equal(clipped.width, 5);
+  assert.equal(clipped.height, 3);
+  assert.deepEqual(pixelAt(clipped, 0, 0), [15, 0, 0, 255]);
+
+  assert.throws(() => cropImage(image, { x: 30, y: 0, w: 5, h: 5 }));
+});
+
+test("scales down by averaging source pixels", () => {
+  const image = coordinates(8, 6);
+  const half = scaleImage(image, 0.5);
+  assert.equal(half.width, 4);
+  assert.equal(half.height, 3);
+  // Average of (2,2), (3,2), (2,3) and (3,3), rounded
+  assert.deepEqual(pixelAt(half, 1, 1), [3, 3, 0, 255]);
+
+  assert.equal(scaleImage(image, 1), image);
+  const tiny = scaleImage(image, 0.01);
+  assert.equal(tiny.width, 1);
+  assert.equal(tiny.height, 1);
+});
+
+test("encodes a well-formed baseline JPEG", () => {
+  const image = coordinates(37, 21);
+  const file = encodeJPEG(image, 80);
+
+  assert.deepEqual([...file.subarray(0, 2)], [0xff, 0xd8]);
+  assert.deepEqual([...file.subarray(-2)], [0xff, 0xd9]);
+
+  const { segments, scan } = jpegSegments(file);
+  const markers = segments.map((segment) => segment.marker);
+  assert.equal(markers[0], 0xe0); // JFIF
+  assert.ok(markers.includes(0xdb), "quantization tables");
+  assert.ok(markers.includes(0xc4), "Huffman tables");
+
+  // Baseline frame with the image size and three components
+  const frame = segments.find((segment) => segment.marker === 0xc0);
+  assert.ok(frame, "SOF0 segment");
+  assert.equal(frame.data[0], 8);
+  assert.equal(frame.data.readUInt16BE(1), 21);
+  assert.equal(frame.data.readUInt16BE(3), 37);
+  assert.equal(frame.data[5], 3);
+
+  // Every 0xff in the entropy-coded data is stuffed, up to the EOI
+  const data = scan.subarray(0, -2);
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0xff) assert.equal(data[++i], 0x00, `stuffing at ${i}`);
+  }
+});
+
+test("lower JPEG quality gives smaller files", () => {
+  const image = coordinates(64, 64);
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data[i + 2] = (i * 7919) & 0xff; // Noise, so quality matters
+  }
+  assert.ok(encodeJPEG(image, 30).length < encodeJPEG(image, 90).length);
+});
@@ -0,0 +1,189 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as zlib from "zlib";
+import { decodePNG, encodePNG, PNGError, type PNGImage } from "../src/png.js";
+
+// Screenshots are only ever encoded as 8-bit RGBA, so the other formats the
+// decoder handles are built by hand here
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const crc32 = (buffer: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+interface Header {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced?: boolean;
+}
+
+const pngFile = (
+  header: Header,
+  scanlines: Buffer,
+  extra: Buffer[] = []
+): Buffer => {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(header.width, 0);
+  ihdr.writeUInt32BE(header.height, 4);
+  ihdr[8] = header.bitDepth;
+  ihdr[9] = header.colorType;
+  ihdr[12] = header.interlaced ? 1 : 0;
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", ihdr),
+    ...extra,
+    chunk("IDAT", zlib.deflateSync(scanlines)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+};
+
+const pixelAt = (image: PNGImage, index: number): number[] => [
+  ...image.data.subarray(index * 4, index * 4 + 4),
+];
+
+// Deterministic test image with varied colors and alpha
+const gradient = (width: number, height: number): PNGImage => {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = (x * 37) & 0xff;
+      data[i + 1] = (y * 53) & 0xff;
+      data[i + 2] = (x * y * 11) & 0xff;
+      data[i + 3] = 255 - ((x + y) & 0x3f);
+    }
+  }
+  return { width, height, data };
+};
+
+test("round-trips RGBA images through encode and decode", () => {
+  for (const [width, height] of [
+    [1, 1],
+    [7, 5],
+    [64, 33],
+  ]) {
+    const image = gradient(width, height);
+    const decoded = decodePNG(encodePNG(image));
+    assert.equal(decoded.width, width);
+    assert.equal(decoded.height, height);
+    assert.ok(decoded.data.equals(image.data));
+  }
+});
+
+test("decodes Adam7-interlaced images", () => {
+  const width = 11;
+  const height = 9;
+  const rgb = (x: number, y: number) => [x * 20, y * 25, (x + y) * 10];
+
+  // Each pass is its own subimage of unfiltered scanlines
+  const passes = [
+    [0, 0, 8, 8],
+    [4, 0, 8, 8],
+    [0, 4, 4, 8],
+    [2, 0, 4, 4],
+    [0, 2, 2, 4],
+    [1, 0, 2, 2],
+    [0, 1, 1, 2],
+  ];
+  const bytes: number[] = [];
+  for (const [startX, startY, stepX, stepY] of passes) {
+    for (let y = startY; y < height; y += stepY) {
+      bytes.push(0);
+      for (let x = startX; x < width; x += stepX) bytes.push(...rgb(x, y));
+    }
+  }
+
+  const header = { width, height, bitDepth: 8, colorType: 2, interlaced: true };
+  const decoded = decodePNG(pngFile(header, Buffer.from(bytes)));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      assert.deepEqual(
+        pixelAt(decoded, y * width + x),
+        [...rgb(x, y), 255],
+        `pixel ${x},${y}`
+      );
+    }
+  }
+});
+
+test("decodes 2-bit paletted images with transparency", () => {
+  const palette = Buffer.from([
+    255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255,
+  ]);
+  const alpha = Buffer.from([255, 128, 0]); // Index 3 stays opaque
+  // Rows of 5 indices, packed four to a byte, high bits first
+  const indices = [
+    [0, 1, 2, 3, 0],
+    [3, 2, 1, 0, 1],
+  ];
+  const scanlines = Buffer.from(
+    indices.flatMap((row) => [
+      0,
+      (row[0] << 6) | (row[1] << 4) | (row[2] << 2) | row[3],
+      row[4] << 6,
+    ])
+  );
+
+  const header = { width: 5, height: 2, bitDepth: 2, colorType: 3 };
+  const decoded = decodePNG(
+    pngFile(header, scanlines, [chunk("PLTE", palette), chunk("tRNS", alpha)])
+  );
+  indices.flat().forEach((index, pixel) => {
+    assert.deepEqual(pixelAt(decoded, pixel), [
+      ...palette.subarray(index * 3, index * 3 + 3),
+      index < alpha.length ? alpha[index] : 255,
+    ]);
+  });
+});
+
+test("undoes every scanline filter", () => {
+  // A flat 2x2 RGB image; each filtered byte is the residual against the
+  // filter's predictor
+  const header = { width: 2, height: 2, bitDepth: 8, colorType: 2 };
+  const flat = [10, 20, 30, 255];
+  const filtered = [
+    // Sub, then up
+    [1, 10, 20, 30, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0],
+    // Average (the first pixel predicts half of itself), then paeth
+    [3, 10, 20, 30, 5, 10, 15, 4, 0, 0, 0, 0, 0, 0],
+  ];
+  for (const scanlines of filtered) {
+    const decoded = decodePNG(pngFile(header, Buffer.from(scanlines)));
+    for (let pixel = 0; pixel < 4; pixel++) {
+      assert.deepEqual(pixelAt(decoded, pixel), flat);
+    }
+  }
+});
+
+test("rejects corrupt files", () => {
+  const file = encodePNG(gradient(4, 4));
+  assert.throws(() => decodePNG(file.subarray(1)), /Not a PNG file/);
+
+  const corrupt = Buffer.from(file);
+  corrupt[40] ^= 0xff; // Inside the IDAT chunk
+  assert.throws(() => decodePNG(corrupt), PNGError);
+
+  assert.throws(
+    () => encodePNG({ width: 2, height: 2, data: Buffer.alloc(3) }),
+    /Expected 16 bytes/
+  );
+});
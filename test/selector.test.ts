@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  compileSelector,
+  isSelector,
+  parseSelector,
+  SelectorError,
+} from "../src/selector.js";
+
+const compile = (selector: string) => compileSelector(parseSelector(selector));
+
+test("tells refs from selectors", () => {
+  assert.equal(isSelector("@e5"), false);
+  assert.equal(isSelector("@foo"), false);
+  assert.equal(isSelector("Button"), true);
+  assert.equal(isSelector("#login"), true);
+});
+
+test("compiles a single step to a predicate string", () => {
+  assert.deepEqual(compile('Button[label="Log in"]'), {
+    using: "predicate string",
+    value: 'type == "XCUIElementTypeButton" AND label == "Log in"',
+  });
+  assert.deepEqual(compile("#loginButton"), {
+    using: "predicate string",
+    value: 'name == "loginButton"',
+  });
+  assert.deepEqual(compile('text^="Cont"'), {
+    using: "predicate string",
+    value: '(label BEGINSWITH "Cont" OR value BEGINSWITH "Cont")',
+  });
+  assert.deepEqual(compile("Switch[enabled=false][placeholder*=x]"), {
+    using: "predicate string",
+    value:
+      'type == "XCUIElementTypeSwitch" AND enabled == 0 AND placeholderValue CONTAINS "x"',
+  });
+});
+
+test("escapes quotes and backslashes in predicates", () => {
+  assert.deepEqual(compile('[label="Say \\"hi\\" \\\\o/"]'), {
+    using: "predicate string",
+    value: 'label == "Say \\"hi\\" \\\\o/"',
+  });
+});
+
+test("compiles :nth and combinators to a class chain", () => {
+  assert.deepEqual(compile("Cell:nth(3) > StaticText"), {
+    using: "class chain",
+    value: "**/XCUIElementTypeCell[4]/XCUIElementTypeStaticText",
+  });
+  assert.deepEqual(compile('Table Cell[label^="Order"]'), {
+    using: "class chain",
+    value:
+      '**/XCUIElementTypeTable/**/XCUIElementTypeCell[`label BEGINSWITH "Order"`]',
+  });
+  assert.deepEqual(compile("Table > *"), {
+    using: "class chain",
+    value: "**/XCUIElementTypeTable/*",
+  });
+});
+
+test("doubles backticks inside class chain conditions", () => {
+  assert.deepEqual(compile('Table Cell[label="a`b"]'), {
+    using: "class chain",
+    value: '**/XCUIElementTypeTable/**/XCUIElementTypeCell[`label == "a``b"`]',
+  });
+});
+
+test("rejects malformed selectors", () => {
+  for (const selector of [
+    "",
+    "*",
+    "e5",
+    "Button[foo=1]",
+    'Button[label="x',
+    "Button[enabled=yes]",
+    "Cell:nth(x)",
+  ]) {
+    assert.throws(() => parseSelector(selector), SelectorError, selector);
+  }
+  assert.throws(() => parseSelector("e5"), /did you mean @e5\?/);
+});
@@ -0,0 +1,543 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  condenseSnapshot,
+  createRefStore,
+  diffSnapshots,
+  estimateTokens,
+  formatSnapshotDiff,
+  formatSnapshotTree,
+  parseWDASource,
+  RefResolutionError,
+  resolveRef,
+  type ElementFinder,
+  type ElementRect,
+  type RefMapEntry,
+} from "../src/snapshot.js";
+import { readFixture } from "./helpers.js";
+
+const refsOf = (xml: string, store: ReturnType<typeof createRefStore>) =>
+  parseWDASource(xml, { refStore: store, newGeneration: true });
+
+test("marks refs first issued in a snapshot as fresh", () => {
+  const store = createRefStore();
+  const first = refsOf(readFixture("settings.xml"), store);
+  assert.ok(first.elements.every((element) => element.fresh));
+  assert.ok(Object.values(first.refMap).every((entry) => entry.fresh));
+
+  // Same screen plus one cell: only the new cell's ref is fresh
+  const xml = readFixture("settings.xml").replace(
+    "</XCUIElementTypeTable>",
+    '<XCUIElementTypeCell type="XCUIElementTypeCell" label="General" x="20" y="371" width="350" height="44"/></XCUIElementTypeTable>'
+  );
+  const second = refsOf(xml, store);
+  const fresh = second.elements.filter((element) => element.fresh);
+  assert.deepEqual(
+    fresh.map((element) => element.label),
+    ["General"]
+  );
+  assert.equal(second.generation, 2);
+});
+
+test("a source that fails to parse doesn't start a generation", () => {
+  const store = createRefStore();
+  refsOf(readFixture("settings.xml"), store);
+  assert.throws(() => refsOf("<XCUIElementTypeApplication>", store));
+  assert.equal(store.generation, 1);
+});
+
+test("forgets refs of elements unseen for many snapshots", () => {
+  const store = createRefStore();
+  const settings = refsOf(readFixture("settings.xml"), store);
+  const wifi = settings.elements.find((element) => element.label === "Wi‑Fi")!;
+
+  for (let i = 0; i < 25; i++) refsOf(readFixture("emoji.xml"), store);
+  assert.equal(store.identityOf(wifi.ref), undefined);
+
+  const again = refsOf(readFixture("settings.xml"), store);
+  const back = again.elements.find((element) => element.label === "Wi‑Fi")!;
+  assert.notEqual(back.ref, wifi.ref);
+  assert.equal(back.fresh, true);
+});
+
+test("keeps refs that are still resolvable", () => {
+  const store = createRefStore();
+  const settings = refsOf(readFixture("settings.xml"), store);
+  const wifi = settings.elements.find((element) => element.label === "Wi‑Fi")!;
+  store.set(wifi.ref, settings.refMap[wifi.ref]);
+
+  for (let i = 0; i < 25; i++) refsOf(readFixture("emoji.xml"), store);
+  assert.notEqual(store.identityOf(wifi.ref), undefined);
+});
+
+test("records accessible, index and traits on elements and refMap entries", () => {
+  const xml = readFixture("settings.xml").replace(
+    'label="Privacy &amp; Security"',
+    'label="Privacy &amp; Security" traits="Button, Selected"'
+  );
+  const snapshot = parseWDASource(xml);
+  const app = snapshot.elements.find((element) => element.ref === snapshot.tree)!;
+  assert.equal(app.accessible, false);
+  assert.equal(snapshot.refMap[app.ref].accessible, false);
+
+  const privacy = snapshot.elements.find(
+    (element) => element.label === "Privacy & Security"
+  )!;
+  assert.deepEqual(snapshot.refMap[privacy.ref], {
+    type: "XCUIElementTypeCell",
+    label: "Privacy & Security",
+    identifier: "com.apple.settings.privacy",
+    accessible: true,
+    index: 2,
+    traits: ["Button", "Selected"],
+  });
+});
+
+// Finder answering queries from a table, keyed by "using|value"
+const fakeFinder = (
+  results: Record<string, string[]>,
+  rects: Record<string, ElementRect> = {}
+): ElementFinder & { queries: string[] } => {
+  const queries: string[] = [];
+  return {
+    queries,
+    async findElements(using, value) {
+      queries.push(`${using}|${value}`);
+      const ids = results[`${using}|${value}`] ?? [];
+      return ids.map((id) => ({ ELEMENT: id }));
+    },
+    async getElementRect(elementId) {
+      return rects[elementId] ?? null;
+    },
+  };
+};
+
+const storeWith = (entry: RefMapEntry) => {
+  const store = createRefStore();
+  store.set("@e1", entry);
+  return store;
+};
+
+const ROW_QUERY =
+  'predicate string|type == "XCUIElementTypeCell" AND label == "Row"';
+const rect = (y: number): ElementRect => ({ x: 0, y, width: 100, height: 44 });
+
+test("resolves a ref by identifier before its label", async () => {
+  const finder = fakeFinder({
+    "accessibility id|login": ["a"],
+    'predicate string|label == "Log in"': ["b"],
+  });
+  const store = storeWith({
+    type: "XCUIElementTypeButton",
+    label: "Log in",
+    identifier: "login",
+  });
+  assert.equal(await resolveRef("@e1", store, finder), "a");
+  assert.deepEqual(finder.queries, ["accessibility id|login"]);
+});
+
+test("picks the candidate at the ref's snapshot frame", async () => {
+  const finder = fakeFinder(
+    { [ROW_QUERY]: ["a", "b", "c"] },
+    { a: rect(0), b: rect(44), c: rect(88) }
+  );
+  const store = storeWith({
+    type: "XCUIElementTypeCell",
+    label: "Row",
+    frame: { x: 0, y: 44, w: 100, h: 44 },
+  });
+  assert.equal(await resolveRef("@e1", store, finder), "b");
+});
+
+test("falls back to the ordinal while the number of matches is unchanged", async () => {
+  const finder = fakeFinder(
+    { [ROW_QUERY]: ["a", "b", "c"] },
+    { a: rect(100), b: rect(144), c: rect(188) }
+  );
+  const entry: RefMapEntry = {
+    type: "XCUIElementTypeCell",
+    label: "Row",
+    frame: { x: 0, y: 44, w: 100, h: 44 },
+    ordinal: 2,
+    matches: 3,
+  };
+  assert.equal(await resolveRef("@e1", storeWith(entry), finder), "c");
+
+  // With a fourth match the ordinal says nothing
+  const grown = fakeFinder({ [ROW_QUERY]: ["a", "b", "c", "d"] });
+  await assert.rejects(resolveRef("@e1", storeWith(entry), grown));
+});
+
+test("narrows down to the nearest labeled ancestor", async () => {
+  const chain =
+    'class chain|**/XCUIElementTypeTable[`name == "orders"`]' +
+    '/**/XCUIElementTypeCell[`label == "Row"`]';
+  const finder = fakeFinder({ [ROW_QUERY]: ["a", "b"], [chain]: ["b"] });
+  const store = storeWith({
+    type: "XCUIElementTypeCell",
+    label: "Row",
+    ancestors: [{ type: "XCUIElementTypeTable", identifier: "orders" }],
+  });
+  assert.equal(await resolveRef("@e1", store, finder), "b");
+});
+
+test("lists the candidates when a ref stays ambiguous", async () => {
+  const finder = fakeFinder(
+    { [ROW_QUERY]: ["a", "b"] },
+    { a: rect(0), b: rect(44) }
+  );
+  const store = storeWith({ type: "XCUIElementTypeCell", label: "Row" });
+  await assert.rejects(resolveRef("@e1", store, finder), (err) => {
+    assert.ok(err instanceof RefResolutionError);
+    assert.match(err.message, /Multiple elements match @e1 \(2 matches/);
+    assert.equal(err.candidates?.length, 2);
+    return true;
+  });
+});
+
+test("reports unknown and vanished refs", async () => {
+  const finder = fakeFinder({});
+  await assert.rejects(
+    resolveRef("@e9", createRefStore(), finder),
+    /Unknown ref: @e9/
+  );
+  const store = storeWith({ type: "XCUIElementTypeCell", label: "Row" });
+  await assert.rejects(resolveRef("@e1", store, finder), (err) => {
+    assert.ok(err instanceof RefResolutionError);
+    assert.match(err.message, /Element @e1 not found/);
+    assert.equal(err.candidates, undefined);
+    return true;
+  });
+});
+
+// Minimal source element with an on-screen frame
+const node = (type: string, attrs = "", children: string[] = []): string => {
+  const tag = `XCUIElementType${type}`;
+  const frame = 'x="0" y="0" width="390" height="44"';
+  const open = `<${tag} type="${tag}" ${attrs} ${frame}`;
+  return children.length > 0
+    ? `${open}>${children.join("")}</${tag}>`
+    : `${open}/>`;
+};
+
+const tokensOf = (snapshot: ReturnType<typeof parseWDASource>) =>
+  estimateTokens(formatSnapshotTree(snapshot));
+
+const condense = (
+  snapshot: ReturnType<typeof parseWDASource>,
+  maxTokens: number
+) => condenseSnapshot(snapshot, maxTokens, formatSnapshotTree);
+
+test("leaves a snapshot that fits as it is", () => {
+  const snapshot = parseWDASource(
+    node("Application", 'label="App"', [
+      node("Image"),
+      node("Button", 'label="OK"'),
+    ])
+  );
+  const { snapshot: condensed, report } = condense(
+    snapshot,
+    tokensOf(snapshot)
+  );
+  assert.equal(report.fits, true);
+  assert.equal(report.droppedDecorative, 0);
+  assert.deepEqual(report.elided, []);
+  assert.equal(report.hint, undefined);
+  assert.deepEqual(condensed.elements, snapshot.elements);
+});
+
+test("drops decorative elements first", () => {
+  const snapshot = parseWDASource(
+    node("Application", 'label="App"', [
+      node("Other", "", [
+        node("Other", "", [node("Button", 'label="Log in"')]),
+      ]),
+      node("Image"),
+      node("Other", 'name="banner"'),
+    ])
+  );
+  const button = snapshot.elements.find(
+    (element) => element.label === "Log in"
+  )!;
+  const { snapshot: condensed, report } = condense(
+    snapshot,
+    tokensOf(snapshot) - 1
+  );
+
+  assert.equal(report.fits, true);
+  assert.equal(report.droppedDecorative, 3);
+  assert.equal(report.shortenedText, 0);
+  const root = condensed.elements.find(
+    (element) => element.ref === condensed.tree
+  )!;
+  assert.deepEqual(
+    root.children.map((ref) => condensed.refMap[ref].label),
+    ["Log in", "banner"]
+  );
+  assert.ok(condensed.elements.some((element) => element.ref === button.ref));
+});
+
+test("shortens long text and keeps the refMap in line", () => {
+  const long = "A very long description ".repeat(5).trim();
+  const snapshot = parseWDASource(
+    node("Application", 'label="App"', [
+      node("StaticText", `label="${long}"`),
+      node("Button", 'label="OK"'),
+    ])
+  );
+  const text = snapshot.elements.find((element) => element.label === long)!;
+  const { snapshot: condensed, report } = condense(
+    snapshot,
+    tokensOf(snapshot) - 1
+  );
+
+  assert.equal(report.fits, true);
+  assert.equal(report.droppedDecorative, 0);
+  assert.equal(report.shortenedText, 1);
+  const shortened = condensed.elements.find(
+    (element) => element.ref === text.ref
+  )!;
+  assert.equal(shortened.label!.length, 60);
+  assert.ok(shortened.label!.endsWith("…"));
+  assert.ok(long.startsWith(shortened.label!.slice(0, -1)));
+  assert.equal(condensed.refMap[text.ref].label, shortened.label);
+});
+
+test("summarizes long runs of siblings and says where they went", () => {
+  const cells = Array.from({ length: 40 }, (_, i) =>
+    node("Cell", `label="Order ${i + 1}"`)
+  );
+  const snapshot = parseWDASource(
+    node("Application", 'label="Shop"', [node("Table", 'name="orders"', cells)])
+  );
+  const table = snapshot.elements.find(
+    (element) => element.type === "XCUIElementTypeTable"
+  )!;
+  const { snapshot: condensed, report } = condense(snapshot, 100);
+
+  assert.equal(report.fits, true);
+  assert.deepEqual(report.elided, [
+    { ref: table.ref, type: table.type, label: "orders", omitted: 30 },
+  ]);
+  assert.match(report.hint!, new RegExp(`'snapshot ${table.ref}'`));
+
+  const shown = condensed.elements.find(
+    (element) => element.ref === table.ref
+  )!;
+  assert.equal(shown.truncated, 30);
+  assert.match(formatSnapshotTree(condensed), /\(\+30 children\)/);
+
+  // The cells still shown are the first ten, under their original refs
+  const original = new Map(snapshot.elements.map((e) => [e.ref, e]));
+  assert.deepEqual(
+    shown.children.map((ref) => original.get(ref)!.label),
+    Array.from({ length: 10 }, (_, i) => `Order ${i + 1}`)
+  );
+  for (const element of condensed.elements) {
+    assert.deepEqual(
+      condensed.refMap[element.ref],
+      snapshot.refMap[element.ref]
+    );
+  }
+});
+
+test("diffs two snapshots of the same screen", () => {
+  const store = createRefStore();
+  const before = refsOf(readFixture("settings.xml"), store);
+  const xml = readFixture("settings.xml")
+    .replace('value="0" name="Airplane', 'value="1" name="Airplane')
+    .replace('y="283" width="350"', 'y="290" width="350"')
+    .replace(/<XCUIElementTypeCell[^>]*label="Privacy[^>]*\/>/, "")
+    .replace(
+      "</XCUIElementTypeTable>",
+      '<XCUIElementTypeCell type="XCUIElementTypeCell" name="com.apple.settings.general" label="General" x="20" y="327" width="350" height="44"/></XCUIElementTypeTable>'
+    );
+  const after = refsOf(xml, store);
+  const diff = diffSnapshots(before, after);
+
+  const ref = (snapshot: typeof before, label: string, type: string) =>
+    snapshot.elements.find(
+      (element) => element.label === label && element.type === type
+    )!.ref;
+  const airplane = ref(after, "Airplane Mode", "XCUIElementTypeSwitch");
+  const wifi = ref(after, "Wi‑Fi", "XCUIElementTypeCell");
+  const general = ref(after, "General", "XCUIElementTypeCell");
+  const privacy = ref(before, "Privacy & Security", "XCUIElementTypeCell");
+
+  assert.equal(diff.since, before.timestamp);
+  assert.deepEqual(
+    diff.added.map((element) => element.ref),
+    [general]
+  );
+  assert.deepEqual(
+    diff.removed.map((element) => element.ref),
+    [privacy]
+  );
+  assert.deepEqual(
+    diff.changed.map((change) => [change.ref, Object.keys(change.changes)]),
+    [
+      [airplane, ["value"]],
+      [wifi, ["frame"]],
+    ]
+  );
+  assert.equal(diff.unchanged, after.elements.length - 3);
+
+  assert.deepEqual(formatSnapshotDiff(diff).split("\n"), [
+    `+ Cell "General" [${general}] #com.apple.settings.general`,
+    `- Cell "Privacy & Security" [${privacy}] #com.apple.settings.privacy`,
+    `~ Switch "Airplane Mode" [${airplane}]: value "0" -> "1"`,
+    `~ Cell "Wi‑Fi" [${wifi}]: frame {"x":20,"y":283,"w":350,"h":44} -> {"x":20,"y":290,"w":350,"h":44}`,
+  ]);
+});
+
+test("pairs elements without an identifier by type and label, in order", () => {
+  const before = parseWDASource(
+    node("Application", 'label="App"', [
+      node("Button", 'label="Save"'),
+      node("Button", 'label="Save" enabled="false"'),
+    ])
+  );
+  const after = parseWDASource(
+    node("Application", 'label="App"', [
+      node("Button", 'label="Save" enabled="false"'),
+    ])
+  );
+  const diff = diffSnapshots(before, after);
+  assert.deepEqual(diff.changed[0].changes, {
+    enabled: { from: true, to: false },
+  });
+  assert.equal(diff.removed.length, 1);
+  assert.equal(diff.unchanged, 1);
+});
+
+test("a first snapshot is all additions and an equal one is no change", () => {
+  const snapshot = parseWDASource(readFixture("settings.xml"));
+  const first = diffSnapshots(null, snapshot);
+  assert.equal(first.since, null);
+  assert.equal(first.added.length, snapshot.elements.length);
+  assert.ok(first.added.every((element) => !("children" in element)));
+
+  const again = parseWDASource(readFixture("settings.xml"));
+  const same = diffSnapshots(snapshot, again);
+  assert.equal(same.unchanged, snapshot.elements.length);
+  assert.equal(formatSnapshotDiff(same), "(no changes)");
+});
+
+test("renders a snapshot as an indented outline", () => {
+  const snapshot = parseWDASource(readFixture("settings.xml"));
+  assert.equal(
+    formatSnapshotTree(snapshot),
+    [
+      '- Application "Settings" [@e0]',
+      "  - Window [@e1]",
+      '    - NavigationBar "Settings" [@e2]',
+      '      - StaticText "Settings" [@e3] value="Settings"',
+      "    - Table [@e4]",
+      '      - Cell "Airplane Mode" [@e5] #com.apple.settings.airplane',
+      '        - Switch "Airplane Mode" [@e6] value="0"',
+      '      - Cell "Wi‑Fi" [@e7] #com.apple.settings.wifi value="Home\\nNetwork"',
+      '      - Cell "Privacy & Security" [@e8] #com.apple.settings.privacy',
+    ].join("\n")
+  );
+});
+
+test("collapses unlabeled wrappers with a single child", () => {
+  // Without the navigation bar the window only wraps the table
+  const xml = readFixture("settings.xml").replace(
+    /<XCUIElementTypeNavigationBar[^]*<\/XCUIElementTypeNavigationBar>/,
+    ""
+  );
+  const lines = formatSnapshotTree(parseWDASource(xml)).split("\n");
+  assert.equal(lines[0], '- Application "Settings" [@e0]');
+  assert.match(lines[1], /^ {2}- Table \[@e2\]$/);
+  assert.ok(!lines.some((line) => line.includes("Window")));
+
+  const nested = parseWDASource(
+    node("Application", 'label="App"', [
+      node("Other", "", [node("Other", "", [node("Button", 'label="OK"')])]),
+    ])
+  );
+  assert.equal(
+    formatSnapshotTree(nested),
+    '- Application "App" [@e0]\n  - Button "OK" [@e3]'
+  );
+});
+
+test("keeps wrappers that say something about their child", () => {
+  const button = node("Button", 'label="OK"');
+  for (const attrs of [
+    'name="toolbar"',
+    'value="3"',
+    'enabled="false"',
+    'visible="false"',
+  ]) {
+    const snapshot = parseWDASource(
+      node("Application", 'label="App"', [node("Other", attrs, [button])])
+    );
+    const lines = formatSnapshotTree(snapshot).split("\n");
+    assert.equal(lines.length, 3, attrs);
+    assert.match(lines[1], /^ {2}- Other/, attrs);
+  }
+
+  const pair = parseWDASource(
+    node("Application", 'label="App"', [node("Other", "", [button, button])])
+  );
+  assert.match(formatSnapshotTree(pair), /^ {2}- Other \[@e1\]$/m);
+});
+
+// Cell at the given frame
+const cellAt = (label: string, x: number, y: number, w = 100, h = 44) =>
+  `<XCUIElementTypeCell type="XCUIElementTypeCell" label="${label}" ` +
+  `x="${x}" y="${y}" width="${w}" height="${h}"/>`;
+
+test("classifies frames against the scroll view they are in", () => {
+  // The table shows y 100-500 of a 390x844 window
+  const xml =
+    '<XCUIElementTypeApplication type="XCUIElementTypeApplication" label="App" x="0" y="0" width="390" height="844">' +
+    '<XCUIElementTypeTable type="XCUIElementTypeTable" x="0" y="100" width="390" height="400">' +
+    cellAt("inside", 0, 200) +
+    cellAt("bottom edge", 0, 480) +
+    cellAt("below", 0, 600) +
+    cellAt("top edge", 0, 80) +
+    cellAt("above", 0, 0) +
+    cellAt("right edge", 350, 200) +
+    cellAt("left", -150, 200) +
+    cellAt("empty", 0, 200, 0, 0) +
+    "</XCUIElementTypeTable>" +
+    '<XCUIElementTypeOther type="XCUIElementTypeOther" x="0" y="500" width="390" height="344">' +
+    cellAt("below the table", 0, 600) +
+    "</XCUIElementTypeOther>" +
+    "</XCUIElementTypeApplication>";
+  const snapshot = parseWDASource(xml);
+  const classified = Object.fromEntries(
+    snapshot.elements
+      .filter((element) => element.type === "XCUIElementTypeCell")
+      .map((element) => [
+        element.label,
+        [element.visibility, element.scrollHint],
+      ])
+  );
+
+  assert.deepEqual(classified, {
+    inside: ["onscreen", undefined],
+    "bottom edge": ["partial", "down"],
+    below: ["offscreen", "down"],
+    "top edge": ["partial", "up"],
+    above: ["offscreen", "up"],
+    "right edge": ["partial", "right"],
+    left: ["offscreen", "left"],
+    empty: ["offscreen", undefined],
+    // Only scroll views clip their content
+    "below the table": ["onscreen", undefined],
+  });
+
+  const entry = (label: string) =>
+    Object.values(snapshot.refMap).find((entry) => entry.label === label)!;
+  assert.equal(entry("inside").visibility, undefined);
+  assert.equal(entry("below").visibility, "offscreen");
+  assert.equal(entry("below").scrollHint, "down");
+
+  const tree = formatSnapshotTree(snapshot);
+  assert.match(tree, /"below" \[@e\d+\] \(offscreen, scroll down\)$/m);
+  assert.match(tree, /"top edge" \[@e\d+\] \(partially offscreen\)$/m);
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PNGImage } from "../src/png.js";
+import { compareImages, CompareError } from "../src/visual-diff.js";
+
+// White image with a black square
+const withSquare = (
+  width: number,
+  height: number,
+  square: { x: number; y: number; size: number }
+): PNGImage => {
+  const data = Buffer.alloc(width * height * 4, 255);
+  for (let y = square.y; y < square.y + square.size; y++) {
+    for (let x = square.x; x < square.x + square.size; x++) {
+      data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+    }
+  }
+  return { width, height, data };
+};
+
+test("identical images don't differ", () => {
+  const image = withSquare(40, 30, { x: 10, y: 10, size: 8 });
+  const result = compareImages(image, {
+    ...image,
+    data: Buffer.from(image.data),
+  });
+  assert.equal(result.mismatchedPixels, 0);
+  assert.equal(result.antialiasedPixels, 0);
+  assert.equal(result.mismatch, 0);
+  assert.equal(result.diff.width, 40);
+  assert.equal(result.diff.height, 30);
+});
+
+test("a shifted element shows up as mismatched pixels", () => {
+  const baseline = withSquare(40, 30, { x: 10, y: 10, size: 8 });
+  const actual = withSquare(40, 30, { x: 14, y: 10, size: 8 });
+  const result = compareImages(baseline, actual);
+
+  // Columns 10-13 lost the square and 18-21 gained it, 8 rows each
+  assert.equal(result.mismatchedPixels, 64);
+  assert.equal(result.mismatch, (64 / (40 * 30)) * 100);
+
+  // Mismatches are painted red in the diff image
+  const pos = (12 * 40 + 11) * 4;
+  assert.deepEqual(
+    [...result.diff.data.subarray(pos, pos + 4)],
+    [255, 0, 0, 255]
+  );
+});
+
+test("ignored regions are left out of the comparison", () => {
+  const baseline = withSquare(40, 30, { x: 10, y: 10, size: 8 });
+  const actual = withSquare(40, 30, { x: 14, y: 10, size: 8 });
+  const result = compareImages(baseline, actual, {
+    ignore: [{ x: 8, y: 8, w: 16, h: 12 }],
+  });
+  assert.equal(result.mismatchedPixels, 0);
+  assert.equal(result.ignoredPixels, 16 * 12);
+  assert.equal(result.mismatch, 0);
+});
+
+test("the threshold tolerates small color changes", () => {
+  const baseline = withSquare(10, 10, { x: 0, y: 0, size: 0 });
+  const actual = { ...baseline, data: Buffer.alloc(400, 250) };
+  assert.equal(compareImages(baseline, actual).mismatchedPixels, 0);
+  assert.equal(
+    compareImages(baseline, actual, { threshold: 0 }).mismatchedPixels,
+    100
+  );
+});
+
+test("images of different sizes can't be compared", () => {
+  assert.throws(
+    () =>
+      compareImages(
+        withSquare(10, 10, { x: 0, y: 0, size: 0 }),
+        withSquare(10, 12, { x: 0, y: 0, size: 0 })
+      ),
+    CompareError
+  );
+});
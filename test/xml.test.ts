@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseXML, XMLParseError, type XMLNode } from "../src/xml.js";
+import { readFixture } from "./helpers.js";
+
+for (const name of ["settings", "emoji", "web-view"]) {
+  test(`parses ${name}.xml into the expected tree`, () => {
+    const expected = JSON.parse(readFixture(`${name}.expected.json`));
+    assert.deepEqual(parseXML(readFixture(`${name}.xml`)), expected);
+  });
+}
+
+test("decodes numeric, hex and named references in attributes", () => {
+  const root = parseXML(readFixture("emoji.xml"));
+  const [welcome, thumbs, quote, message] = root.children;
+  assert.equal(welcome.attributes.label, "👋 Welcome back");
+  assert.equal(thumbs.attributes.label, "👍 👍️");
+  assert.equal(quote.attributes.value, `She said "it's 5 < 6 > 4"`);
+  // Referenced whitespace survives attribute value normalization
+  assert.equal(message.attributes.value, "line one\nline two\ttabbed");
+});
+
+test("skips DOCTYPE, comments, processing instructions and CDATA", () => {
+  const root = parseXML(readFixture("web-view.xml"));
+  const [webView] = root.children;
+  assert.deepEqual(
+    webView.children.map((child) => child.tag),
+    ["XCUIElementTypeLink", "XCUIElementTypeStaticText"]
+  );
+});
+
+test("normalizes literal whitespace in attribute values", () => {
+  const root = parseXML('<a label="one\ttwo\r\nthree"/>');
+  assert.equal(root.attributes.label, "one two three");
+});
+
+const malformed: Array<[string, string, number, number]> = [
+  ["mismatched-tag.xml", "Mismatched closing tag", 5, 3],
+  ["unknown-entity.xml", "Undefined entity &nbsp;", 3, 38],
+  ["truncated.xml", "Unclosed element <XCUIElementTypeWindow>", 5, 1],
+  ["unquoted-attribute.xml", "Expected quoted attribute value", 2, 34],
+  ["invalid-char-ref.xml", "Invalid character reference &#xD800;", 3, 41],
+];
+
+for (const [name, message, line, column] of malformed) {
+  test(`reports ${name} at line ${line}, column ${column}`, () => {
+    assert.throws(
+      () => parseXML(readFixture(`malformed/${name}`)),
+      (err: unknown) =>
+        err instanceof XMLParseError &&
+        err.message.startsWith(message) &&
+        err.line === line &&
+        err.column === column
+    );
+  });
+}
+
+test("parses a 5MB+ collection view quickly", () => {
+  // A photo grid: the same cell source as WDA emits it, thousands of times
+  const cell = readFixture("collection-cell.xml");
+  const cells: string[] = [];
+  let size = 0;
+  for (let i = 0; size < 5.5 * 1024 * 1024; i++) {
+    const source = cell.replace('index="0">', `index="${i}">`);
+    cells.push(source);
+    size += source.length;
+  }
+  const xml =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<XCUIElementTypeApplication type="XCUIElementTypeApplication" name="Photos">\n' +
+    '  <XCUIElementTypeCollectionView type="XCUIElementTypeCollectionView">\n' +
+    cells.join("") +
+    "  </XCUIElementTypeCollectionView>\n</XCUIElementTypeApplication>\n";
+
+  const start = performance.now();
+  const root = parseXML(xml);
+  const elapsed = performance.now() - start;
+
+  const [collection] = root.children;
+  assert.equal(collection.children.length, cells.length);
+  const last: XMLNode = collection.children[cells.length - 1];
+  assert.equal(last.attributes.index, String(cells.length - 1));
+  assert.equal(last.children[0].children[0].attributes.label, "Photo – Landscape");
+  assert.ok(elapsed < 2000, `took ${Math.round(elapsed)}ms`);
+});